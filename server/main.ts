@@ -0,0 +1,21 @@
+/// <reference lib="deno.ns" />
+// Optional multiplayer server, so teammates share caches and see each
+// other on the map. Start it with `deno task server [port]`, then give
+// players its address (ws://host:port) with the 👥 button.
+import { SyncServer } from "./syncServer.ts";
+
+const DEFAULT_PORT = 8080;
+
+const port = Number(Deno.args[0] ?? DEFAULT_PORT);
+const server = new SyncServer();
+
+Deno.serve({ port }, (request) => {
+  if (request.headers.get("upgrade") !== "websocket") {
+    return new Response("Geocoin multiplayer server: connect by WebSocket.", {
+      status: 426,
+    });
+  }
+  const { socket, response } = Deno.upgradeWebSocket(request);
+  server.connect(socket);
+  return response;
+});
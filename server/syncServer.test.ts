@@ -0,0 +1,275 @@
+/// <reference lib="deno.ns" />
+import assert from "node:assert/strict";
+import { SyncServer } from "./syncServer.ts";
+import {
+  Cache,
+  cacheIdForCell,
+  cellHasCache,
+  Coin,
+  initialCoins,
+} from "../src/gameWorld.ts";
+import type { Cell } from "../src/board.ts";
+import { gradeCoin } from "../src/coinRarity.ts";
+import { setLuckSeed } from "../src/luck.ts";
+import {
+  BONUS_CELL_CHANCE,
+  CacheOp,
+  ClientMessage,
+  EVENT_CHANCE,
+  EVENT_SLOT_LENGTH,
+  REGENERATION_PERIOD,
+  ServerMessage,
+} from "../src/syncProtocol.ts";
+import { WorldEventSchedule } from "../src/worldEvents.ts";
+import { DEFAULT_WORLD_SETTINGS } from "../src/worldSettings.ts";
+
+const NOW = 3 * REGENERATION_PERIOD;
+
+// Just enough of a WebSocket for the server, keeping what it sends
+class FakeSocket extends EventTarget {
+  readonly readyState = WebSocket.OPEN;
+  readonly sent: ServerMessage[] = [];
+
+  send(text: string) {
+    this.sent.push(JSON.parse(text));
+  }
+
+  deliver(message: ClientMessage) {
+    this.dispatchEvent(
+      new MessageEvent("message", { data: JSON.stringify(message) }),
+    );
+  }
+
+  lastCaches(): Cache[] {
+    const message = this.sent.findLast((message) => message.type === "caches");
+    assert.ok(message?.type === "caches");
+    return message.caches;
+  }
+
+  lastResult() {
+    const message = this.sent.findLast((message) => message.type === "result");
+    assert.ok(message?.type === "result");
+    return message;
+  }
+}
+
+function join(server: SyncServer, playerId = "p1"): FakeSocket {
+  const socket = new FakeSocket();
+  server.connect(socket as unknown as WebSocket);
+  socket.deliver({ type: "hello", playerId, name: "Ada", world: "" });
+  return socket;
+}
+
+// The first moment after NOW when a cell pays a bonus, or pays none
+function bonusTime(cell: Cell, bonus: boolean): number {
+  const events = new WorldEventSchedule({
+    slotLength: EVENT_SLOT_LENGTH,
+    eventChance: EVENT_CHANCE,
+    bonusCellChance: BONUS_CELL_CHANCE,
+    seed: DEFAULT_WORLD_SETTINGS.seed,
+  });
+  for (let time = NOW;; time += EVENT_SLOT_LENGTH) {
+    const event = events.eventAt(time);
+    if ((event !== undefined && events.isBonusCell(cell, event)) === bonus) {
+      return time;
+    }
+  }
+}
+
+function sendOp(socket: FakeSocket, id: string, op: CacheOp) {
+  socket.deliver({ type: "op", id, op });
+  return socket.lastResult();
+}
+
+// A cache of the default world as it spawned, the first from column `from`
+function spawnedCache(from = 0): Cache {
+  const { seed, cacheSpawnProbability } = DEFAULT_WORLD_SETTINGS;
+  for (let j = from;; j++) {
+    const cell = { i: 0, j };
+    if (cellHasCache(cell, cacheSpawnProbability, seed)) {
+      return {
+        id: cacheIdForCell(cell),
+        cell,
+        coins: initialCoins(cell, seed),
+        refilledAt: NOW / REGENERATION_PERIOD,
+      };
+    }
+  }
+}
+
+Deno.test("seeded caches hold only coins the world minted", () => {
+  const socket = join(new SyncServer(() => NOW));
+  const cache = spawnedCache();
+  const elsewhere = spawnedCache(cache.cell.j + 1);
+  const forged: Cache = {
+    ...cache,
+    coins: [
+      { ...cache.coins[0], rarity: "legendary", denomination: 1e9 },
+      { ...cache.coins[0], id: "made-up" },
+      elsewhere.coins[0], // Minted, but for a cache not yet seen
+    ],
+  };
+  const nowhere: Cache = {
+    id: "5,5x",
+    cell: { i: 5, j: 5 },
+    coins: [],
+    refilledAt: 0,
+  };
+  socket.deliver({ type: "subscribe", caches: [forged, nowhere] });
+
+  assert.deepEqual(socket.lastCaches(), [{
+    ...cache,
+    coins: [cache.coins[0]],
+  }]);
+});
+
+Deno.test("each room works out its world from its own seed", () => {
+  setLuckSeed("another world"); // Whatever the process last played
+  try {
+    const socket = join(new SyncServer(() => NOW));
+    const cache = spawnedCache();
+    socket.deliver({ type: "subscribe", caches: [cache] });
+    assert.deepEqual(socket.lastCaches(), [cache]);
+  } finally {
+    setLuckSeed("");
+  }
+});
+
+Deno.test("only coins the world minted can be put in a cache", () => {
+  const socket = join(new SyncServer(() => NOW));
+  const cache = spawnedCache();
+  const [taken] = cache.coins;
+  socket.deliver({ type: "subscribe", caches: [cache] });
+
+  socket.deliver({
+    type: "op",
+    id: "1",
+    op: { type: "take", cacheId: cache.id, coin: taken },
+  });
+  assert.equal(socket.lastResult().ok, true);
+
+  const counterfeit: Coin = { ...taken, id: "0:0#999", denomination: 1e9 };
+  socket.deliver({
+    type: "op",
+    id: "2",
+    op: { type: "put", cacheId: cache.id, coin: counterfeit },
+  });
+  assert.equal(socket.lastResult().ok, false);
+
+  socket.deliver({
+    type: "op",
+    id: "3",
+    op: {
+      type: "put",
+      cacheId: cache.id,
+      coin: { ...taken, denomination: 1e9 },
+    },
+  });
+  assert.equal(socket.lastResult().ok, true);
+  assert.deepEqual(
+    socket.lastCaches()[0].coins.find((coin) => coin.id === taken.id),
+    taken,
+  );
+});
+
+Deno.test("only the player who took a coin can put it back, once", () => {
+  const server = new SyncServer(() => bonusTime(spawnedCache().cell, false));
+  const ada = join(server, "p1");
+  const bea = join(server, "p2");
+  const cache = spawnedCache();
+  const [coin] = cache.coins;
+  ada.deliver({ type: "subscribe", caches: [cache] });
+
+  assert.equal(
+    sendOp(ada, "1", { type: "take", cacheId: cache.id, coin }).ok,
+    true,
+  );
+  const put: CacheOp = { type: "put", cacheId: cache.id, coin };
+  assert.equal(sendOp(bea, "1", put).ok, false);
+  assert.equal(sendOp(ada, "2", put).ok, true);
+  assert.equal(sendOp(ada, "3", put).ok, false);
+
+  // Nor can the coin be left in another cache afterwards
+  const other = spawnedCache(cache.cell.j + 1);
+  ada.deliver({ type: "subscribe", caches: [cache, other] });
+  assert.equal(sendOp(ada, "4", { ...put, cacheId: other.id }).ok, false);
+});
+
+Deno.test("bonus coins are only those the server handed out", () => {
+  const cache = spawnedCache();
+  const server = new SyncServer(() => bonusTime(cache.cell, true));
+  const ada = join(server, "p1");
+  const bea = join(server, "p2");
+  const [coin, untaken] = cache.coins;
+  ada.deliver({ type: "subscribe", caches: [cache] });
+  sendOp(ada, "1", { type: "take", cacheId: cache.id, coin });
+
+  const bonus = (id: string): Coin => ({
+    ...coin,
+    id,
+    originatingCacheId: "9,9",
+    denomination: 1e9,
+  });
+  const put = (id: string): CacheOp => ({
+    type: "put",
+    cacheId: cache.id,
+    coin: bonus(id),
+  });
+  assert.equal(sendOp(ada, "2", put(`${untaken.id}+0`)).ok, false);
+  assert.equal(sendOp(ada, "3", put(`${coin.id}+1`)).ok, false);
+  assert.equal(sendOp(bea, "1", put(`${coin.id}+0`)).ok, false);
+  assert.equal(sendOp(ada, "4", put(`${coin.id}+0`)).ok, true);
+
+  const lying = ada.lastCaches()[0].coins.find((other) =>
+    other.id === `${coin.id}+0`
+  );
+  assert.deepEqual(lying, {
+    ...bonus(`${coin.id}+0`),
+    originatingCacheId: cache.id,
+    ...gradeCoin(`${coin.id}+0`, DEFAULT_WORLD_SETTINGS.seed),
+  });
+});
+
+Deno.test("no bonus coin comes with a take outside a bonus event", () => {
+  const cache = spawnedCache();
+  const socket = join(new SyncServer(() => bonusTime(cache.cell, false)));
+  const [coin] = cache.coins;
+  socket.deliver({ type: "subscribe", caches: [cache] });
+  sendOp(socket, "1", { type: "take", cacheId: cache.id, coin });
+
+  const bonus: Coin = { ...coin, id: `${coin.id}+0` };
+  assert.equal(
+    sendOp(socket, "2", { type: "put", cacheId: cache.id, coin: bonus }).ok,
+    false,
+  );
+});
+
+Deno.test("refills are minted by the server", () => {
+  const socket = join(new SyncServer(() => NOW + REGENERATION_PERIOD));
+  const cache = spawnedCache();
+  const emptied = { ...cache, coins: [] };
+  socket.deliver({ type: "subscribe", caches: [emptied] });
+
+  const forged: Coin = {
+    ...cache.coins[0],
+    id: `${cache.cell.i}:${cache.cell.j}#99.0`,
+    denomination: 1e9,
+  };
+  socket.deliver({
+    type: "op",
+    id: "1",
+    op: {
+      type: "refill",
+      cacheId: cache.id,
+      coins: [forged],
+      from: emptied.refilledAt,
+      to: 99,
+    },
+  });
+
+  assert.equal(socket.lastResult().ok, true);
+  const [refilled] = socket.lastCaches();
+  assert.equal(refilled.refilledAt, emptied.refilledAt + 1);
+  assert.ok(refilled.coins.every((coin) => coin.denomination <= 100));
+  assert.ok(!refilled.coins.some((coin) => coin.id === forged.id));
+});
@@ -0,0 +1,408 @@
+// The multiplayer server's state: one room per world, each holding the
+// authoritative copy of every cache its players have seen. A cache is
+// seeded by the first player to see it and changes only through
+// operations checked here. Players are not trusted with what a world
+// holds: where caches spawn and what every coin is worth are worked out
+// here from the world's settings. Everything is kept in memory, so
+// restarting the server starts every shared world afresh.
+import type { Cell } from "../src/board.ts";
+import {
+  Cache,
+  cacheIdForCell,
+  cellHasCache,
+  Coin,
+  initialCoins,
+  regenerateCoins,
+} from "../src/gameWorld.ts";
+import { gradeCoin } from "../src/coinRarity.ts";
+import {
+  applyOp,
+  BONUS_CELL_CHANCE,
+  CacheOp,
+  ClientMessage,
+  EVENT_CHANCE,
+  EVENT_SLOT_LENGTH,
+  parseClientMessage,
+  REGENERATION_PERIOD,
+  REGENERATION_RATE,
+  RemotePlayer,
+  ServerMessage,
+  UNKNOWN_CACHE,
+} from "../src/syncProtocol.ts";
+import { WorldEventSchedule } from "../src/worldEvents.ts";
+import {
+  WorldSettings,
+  WorldSettingsError,
+  worldSettingsFromParams,
+  worldSettingsToParams,
+} from "../src/worldSettings.ts";
+
+// How many answered operations a room remembers, so one sent again after
+// a dropped connection gets the same answer instead of being redone
+const REMEMBERED_RESULTS = 10000;
+
+// Minted coins are "i:j#serial" or "i:j#period.serial". Bonus coins add
+// "+n" to the id of the coin collected with them; the server hands those
+// out itself, so it knows every one there is.
+const COIN_ID_PATTERN = /^(-?\d+):(-?\d+)#(\d+)(?:\.\d+)?$/;
+
+interface OpResult {
+  ok: boolean;
+  reason?: string;
+}
+
+interface Room {
+  settings: WorldSettings;
+  events: WorldEventSchedule;
+  caches: Map<string, Cache>;
+  coinHomes: Map<string, string>; // Which cache each coin lies in
+  coinHolders: Map<string, string>; // Which player took each coin out
+  bonusCoins: Map<string, string>; // Each bonus coin handed out, and where
+  results: Map<string, OpResult>; // Keyed by player and operation id
+  connections: Set<Connection>;
+}
+
+interface Connection {
+  socket: WebSocket;
+  room?: Room;
+  player?: RemotePlayer;
+  hasPosition: boolean;
+  subscribed: Set<string>;
+}
+
+export class SyncServer {
+  private readonly rooms = new Map<string, Room>();
+  private readonly now: () => number;
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  connect(socket: WebSocket) {
+    const connection: Connection = {
+      socket,
+      hasPosition: false,
+      subscribed: new Set(),
+    };
+    socket.addEventListener("message", (event) => {
+      const message = parseClientMessage(String(event.data));
+      if (message) {
+        this.receive(connection, message);
+      }
+    });
+    socket.addEventListener("close", () => this.leave(connection));
+  }
+
+  private receive(connection: Connection, message: ClientMessage) {
+    if (message.type === "hello") {
+      const settings = parseWorld(message.world);
+      if (!settings) {
+        return; // Not a world the game could be playing
+      }
+      this.leave(connection);
+      connection.room = this.room(settings);
+      connection.room.connections.add(connection);
+      connection.player = {
+        id: message.playerId,
+        name: message.name,
+        position: { lat: 0, lng: 0 },
+      };
+      return;
+    }
+
+    const { room, player } = connection;
+    if (!room || !player) {
+      return; // Nothing is shared before a player says which world
+    }
+    if (message.type === "subscribe") {
+      message.caches.forEach((cache) => {
+        if (!room.caches.has(cache.id)) {
+          this.seed(room, cache);
+        }
+      });
+      // Caches the world has no place for are never shared
+      const caches = message.caches.flatMap((cache) =>
+        room.caches.get(cache.id) ?? []
+      );
+      connection.subscribed = new Set(caches.map((cache) => cache.id));
+      this.send(connection, { type: "caches", caches });
+    } else if (message.type === "op") {
+      const key = `${player.id}/${message.id}`;
+      const result = room.results.get(key) ??
+        this.apply(room, message.op, player.id);
+      this.remember(room, key, result);
+      this.send(connection, { type: "result", id: message.id, ...result });
+
+      // Everyone watching sees the change; a refused player sees why
+      const cache = room.caches.get(message.op.cacheId);
+      if (cache) {
+        room.connections.forEach((other) => {
+          if (
+            other.subscribed.has(cache.id) &&
+            (result.ok || other === connection)
+          ) {
+            this.send(other, { type: "caches", caches: [cache] });
+          }
+        });
+      }
+    } else if (message.type === "position") {
+      player.position = message.position;
+      connection.hasPosition = true;
+      this.sendPlayers(room);
+    }
+  }
+
+  private room(settings: WorldSettings): Room {
+    const world = worldSettingsToParams(settings).toString();
+    let room = this.rooms.get(world);
+    if (!room) {
+      room = {
+        settings,
+        events: new WorldEventSchedule({
+          slotLength: EVENT_SLOT_LENGTH,
+          eventChance: EVENT_CHANCE,
+          bonusCellChance: BONUS_CELL_CHANCE,
+          seed: settings.seed,
+        }),
+        caches: new Map(),
+        coinHomes: new Map(),
+        coinHolders: new Map(),
+        bonusCoins: new Map(),
+        results: new Map(),
+        connections: new Set(),
+      };
+      this.rooms.set(world, room);
+    }
+    return room;
+  }
+
+  private leave(connection: Connection) {
+    const { room } = connection;
+    if (room) {
+      room.connections.delete(connection);
+      connection.room = undefined;
+      connection.hasPosition = false;
+      this.sendPlayers(room);
+    }
+  }
+
+  // Seed a cache only where the world spawns one, keeping those of the
+  // player's coins the world could have minted in that cell. A coin can
+  // only lie in one cache, so a seed cannot bring in coins already lying
+  // elsewhere, nor ones minted for caches the server has yet to see.
+  private seed(room: Room, seed: Cache) {
+    const cell = { i: seed.cell.i, j: seed.cell.j };
+    if (
+      seed.id !== cacheIdForCell(cell) ||
+      !cellHasCache(
+        cell,
+        room.settings.cacheSpawnProbability,
+        room.settings.seed,
+      )
+    ) {
+      return;
+    }
+
+    const coins: Coin[] = [];
+    seed.coins.forEach((seeded) => {
+      const coin = this.worldCoin(room, seeded);
+      if (
+        coin && mintedIn(coin.id, cell) && !room.coinHomes.has(coin.id) &&
+        !coins.some((other) => other.id === coin.id)
+      ) {
+        coins.push(coin);
+      }
+    });
+    const cache: Cache = {
+      id: seed.id,
+      cell,
+      coins,
+      refilledAt: Math.min(seed.refilledAt, this.currentPeriod()),
+    };
+    cache.coins.forEach((coin) => room.coinHomes.set(coin.id, cache.id));
+    room.caches.set(cache.id, cache);
+  }
+
+  // Carry out an operation from a player. A coin can only be put back by
+  // the player who took it out, and only once.
+  private apply(room: Room, op: CacheOp, playerId: string): OpResult {
+    const cache = room.caches.get(op.cacheId);
+    if (!cache) {
+      return { ok: false, reason: UNKNOWN_CACHE };
+    }
+    let taken: Coin | undefined;
+    if (op.type === "take") {
+      const coinId = op.coin.id;
+      taken = cache.coins.find((coin) => coin.id === coinId);
+    } else if (op.type === "put") {
+      const coin = this.worldCoin(room, op.coin);
+      if (!coin) {
+        return {
+          ok: false,
+          reason: `coin ${op.coin.id} is not from this world`,
+        };
+      }
+      if (room.coinHomes.has(coin.id)) {
+        return {
+          ok: false,
+          reason: `coin ${coin.id} already lies in cache ${
+            room.coinHomes.get(coin.id)
+          }`,
+        };
+      }
+      if (room.coinHolders.get(coin.id) !== playerId) {
+        return { ok: false, reason: `coin ${coin.id} is not yours to put` };
+      }
+      op = { ...op, coin };
+    } else if (op.type === "refill") {
+      // The server mints the refill, for no later a period than its own
+      const to = Math.min(op.to, this.currentPeriod());
+      const coins = cache.coins.slice();
+      regenerateCoins(
+        cache.cell,
+        coins,
+        cache.refilledAt,
+        to,
+        REGENERATION_RATE,
+        room.settings.seed,
+      );
+      op = {
+        ...op,
+        to,
+        coins: coins.slice(cache.coins.length).filter((coin) =>
+          !room.coinHomes.has(coin.id)
+        ),
+      };
+    }
+
+    const before = new Set(cache.coins.map((coin) => coin.id));
+    const reason = applyOp(cache, op);
+    if (reason) {
+      return { ok: false, reason };
+    }
+    before.forEach((coinId) => room.coinHomes.delete(coinId));
+    cache.coins.forEach((coin) => room.coinHomes.set(coin.id, cache.id));
+    if (op.type === "put") {
+      room.coinHolders.delete(op.coin.id);
+    } else if (taken) {
+      room.coinHolders.set(taken.id, playerId);
+      this.handOutBonus(room, cache, taken, playerId);
+    }
+    return { ok: true };
+  }
+
+  // A coin taken from a bonus cell while its event runs comes with a
+  // second one, named as the game names it: the taken coin's id plus how
+  // often that coin had moved
+  private handOutBonus(
+    room: Room,
+    cache: Cache,
+    taken: Coin,
+    playerId: string,
+  ) {
+    const event = room.events.eventAt(this.now());
+    if (event && room.events.isBonusCell(cache.cell, event)) {
+      const bonusId = `${taken.id}+${taken.trail.length}`;
+      room.bonusCoins.set(bonusId, cache.id);
+      room.coinHolders.set(bonusId, playerId);
+    }
+  }
+
+  // A coin as the world minted it, keeping only the player's record of
+  // where it has been, or undefined if the world never minted its id
+  private worldCoin(room: Room, coin: Coin): Coin | undefined {
+    const { seed } = room.settings;
+    const trail = coin.trail.map(({ action, cacheId, cell, timestamp }) => ({
+      action,
+      cacheId,
+      cell: { i: cell.i, j: cell.j },
+      timestamp,
+    }));
+
+    // Bonus coins belong to wherever they were handed out
+    const bonusHome = room.bonusCoins.get(coin.id);
+    if (bonusHome) {
+      return {
+        id: coin.id,
+        originatingCacheId: bonusHome,
+        trail,
+        ...gradeCoin(coin.id, seed),
+      };
+    }
+
+    const match = COIN_ID_PATTERN.exec(coin.id);
+    if (!match) {
+      return undefined;
+    }
+    const cell = { i: Number(match[1]), j: Number(match[2]) };
+    if (!cellHasCache(cell, room.settings.cacheSpawnProbability, seed)) {
+      return undefined;
+    }
+    const period = Number(match[3]);
+
+    let minted: Coin[] = [];
+    if (!coin.id.includes(".")) {
+      minted = initialCoins(cell, seed);
+    } else if (period <= this.currentPeriod()) {
+      regenerateCoins(
+        cell,
+        minted,
+        period - 1,
+        period,
+        REGENERATION_RATE,
+        seed,
+      );
+    }
+    const original = minted.find((other) => other.id === coin.id);
+    return original && { ...original, trail };
+  }
+
+  private currentPeriod(): number {
+    return Math.floor(this.now() / REGENERATION_PERIOD);
+  }
+
+  private remember(room: Room, key: string, result: OpResult) {
+    room.results.delete(key);
+    room.results.set(key, result);
+    if (room.results.size > REMEMBERED_RESULTS) {
+      room.results.delete(room.results.keys().next().value!);
+    }
+  }
+
+  private sendPlayers(room: Room) {
+    const players: RemotePlayer[] = [];
+    room.connections.forEach((connection) => {
+      if (connection.player && connection.hasPosition) {
+        players.push(connection.player);
+      }
+    });
+    room.connections.forEach((connection) =>
+      this.send(connection, { type: "players", players })
+    );
+  }
+
+  private send(connection: Connection, message: ServerMessage) {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+// Whether a coin id names the cell the coin was minted in
+function mintedIn(coinId: string, cell: Cell): boolean {
+  const match = COIN_ID_PATTERN.exec(coinId);
+  return match !== null && Number(match[1]) === cell.i &&
+    Number(match[2]) === cell.j;
+}
+
+// The settings a world string from a player stands for, if it is valid
+function parseWorld(world: string): WorldSettings | undefined {
+  try {
+    return worldSettingsFromParams(new URLSearchParams(world));
+  } catch (error) {
+    if (!(error instanceof WorldSettingsError)) {
+      throw error;
+    }
+    return undefined;
+  }
+}
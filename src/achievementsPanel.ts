@@ -0,0 +1,153 @@
+// Panel for today's daily quests and every achievement, each with a
+// progress bar. Finished ones are ticked off; locked achievements still
+// show how close the player is.
+import type {
+  AchievementProgress,
+  QuestMetric,
+  QuestProgress,
+} from "./quests.ts";
+
+function formatAmount(metric: QuestMetric, amount: number): string {
+  return metric === "metersWalked"
+    ? `${Math.floor(amount)} m`
+    : String(Math.floor(amount));
+}
+
+export class AchievementsPanel {
+  private readonly container: HTMLElement;
+  private readonly questsNote: HTMLElement;
+  private readonly questList: HTMLElement;
+  private readonly achievementsNote: HTMLElement;
+  private readonly achievementList: HTMLElement;
+  private achievements: AchievementProgress[] = [];
+  private quests: QuestProgress[] = [];
+  private nextQuestDay = 0;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+
+    const questsHeading = document.createElement("h2");
+    questsHeading.textContent = "Daily quests";
+    this.questsNote = document.createElement("p");
+    this.questsNote.className = "progress-note";
+    this.questList = document.createElement("ul");
+    this.questList.className = "progress-list";
+
+    const achievementsHeading = document.createElement("h2");
+    achievementsHeading.textContent = "Achievements";
+    this.achievementsNote = document.createElement("p");
+    this.achievementsNote.className = "progress-note";
+    this.achievementList = document.createElement("ul");
+    this.achievementList.className = "progress-list";
+
+    container.replaceChildren(
+      questsHeading,
+      this.questsNote,
+      this.questList,
+      achievementsHeading,
+      this.achievementsNote,
+      this.achievementList,
+    );
+  }
+
+  isOpen(): boolean {
+    return !this.container.hidden;
+  }
+
+  toggle() {
+    this.container.hidden = !this.container.hidden;
+    this.render();
+  }
+
+  setProgress(
+    achievements: AchievementProgress[],
+    quests: QuestProgress[],
+    nextQuestDay: number,
+  ) {
+    this.achievements = achievements;
+    this.quests = quests;
+    this.nextQuestDay = nextQuestDay;
+    this.render();
+  }
+
+  private render() {
+    if (!this.isOpen()) {
+      return; // Drawn when next opened
+    }
+
+    this.questsNote.textContent = `New quests ${
+      new Date(this.nextQuestDay).toLocaleString([], {
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    }`;
+    this.questList.replaceChildren(
+      ...this.quests.map(({ quest, progress, completed }) =>
+        this.item(
+          quest.description,
+          "",
+          quest.metric,
+          progress,
+          quest.goal,
+          completed,
+        )
+      ),
+    );
+
+    const unlocked = this.achievements.filter((entry) =>
+      entry.unlockedAt !== undefined
+    );
+    this.achievementsNote.textContent =
+      `${unlocked.length} of ${this.achievements.length} unlocked`;
+    this.achievementList.replaceChildren(
+      ...this.achievements.map(({ achievement, progress, unlockedAt }) =>
+        this.item(
+          achievement.title,
+          unlockedAt === undefined
+            ? achievement.description
+            : `${achievement.description}, unlocked ${
+              new Date(unlockedAt).toLocaleDateString()
+            }`,
+          achievement.metric,
+          progress,
+          achievement.goal,
+          unlockedAt !== undefined,
+        )
+      ),
+    );
+  }
+
+  private item(
+    title: string,
+    description: string,
+    metric: QuestMetric,
+    progress: number,
+    goal: number,
+    done: boolean,
+  ): HTMLElement {
+    const item = document.createElement("li");
+    item.className = done ? "progress-done" : "";
+
+    const name = document.createElement("strong");
+    name.textContent = `${done ? "✅" : "⬜"} ${title}`;
+    item.appendChild(name);
+    if (description) {
+      const detail = document.createElement("span");
+      detail.className = "progress-description";
+      detail.textContent = description;
+      item.appendChild(detail);
+    }
+
+    const bar = document.createElement("progress");
+    bar.max = goal;
+    bar.value = Math.min(progress, goal);
+    const count = document.createElement("span");
+    count.className = "progress-count";
+    count.textContent = `${formatAmount(metric, Math.min(progress, goal))} / ${
+      formatAmount(metric, goal)
+    }`;
+    item.append(bar, count);
+    return item;
+  }
+}
@@ -1,12 +1,21 @@
-import leaflet from "leaflet";
-
 // Inside board.ts
+// Plain latitude and longitude only, so the game rules can use a Board
+// without a map or a page.
 
 export interface Cell {
   readonly i: number;
   readonly j: number;
 }
 
+export interface LatLngLiteral {
+  lat: number;
+  lng: number;
+}
+
+// South-west and north-east corners as [lat, lng], which Leaflet takes
+// wherever it takes bounds
+export type CellBounds = [[number, number], [number, number]];
+
 export class Board {
   readonly tileWidth: number;
   readonly tileVisibilityRadius: number;
@@ -29,25 +38,27 @@ export class Board {
     return this.knownCells.get(key)!;
   }
 
-  getCellForPoint(point: leaflet.LatLng): Cell {
+  getCellForPoint(point: LatLngLiteral): Cell {
     const i = Math.floor(point.lat / this.tileWidth);
     const j = Math.floor(point.lng / this.tileWidth);
     return this.getCanonicalCell({ i, j });
   }
 
-  getCellBounds(cell: Cell): leaflet.LatLngBounds {
-    const southWest = new leaflet.LatLng(
-      cell.i * this.tileWidth,
-      cell.j * this.tileWidth,
-    );
-    const northEast = new leaflet.LatLng(
-      (cell.i + 1) * this.tileWidth,
-      (cell.j + 1) * this.tileWidth,
-    );
-    return new leaflet.LatLngBounds(southWest, northEast);
+  getCellBounds(cell: Cell): CellBounds {
+    return [
+      [cell.i * this.tileWidth, cell.j * this.tileWidth],
+      [(cell.i + 1) * this.tileWidth, (cell.j + 1) * this.tileWidth],
+    ];
+  }
+
+  getCellCenter(cell: Cell): LatLngLiteral {
+    return {
+      lat: (cell.i + 0.5) * this.tileWidth,
+      lng: (cell.j + 0.5) * this.tileWidth,
+    };
   }
 
-  getCellsNearPoint(point: leaflet.LatLng): Cell[] {
+  getCellsNearPoint(point: LatLngLiteral): Cell[] {
     const resultCells: Cell[] = [];
     const originCell = this.getCellForPoint(point);
 
@@ -0,0 +1,52 @@
+// Coin rarity tiers. A coin's tier follows from its id alone through luck,
+// so the same coin is the same tier for everyone. How generous the odds are
+// depends on the cell named in the id, which makes some caches richer.
+import luck from "./luck.ts";
+
+export type CoinRarity = "common" | "uncommon" | "rare" | "legendary";
+
+export interface CoinGrade {
+  rarity: CoinRarity;
+  denomination: number; // What the coin adds to the wallet value
+}
+
+// Rarest first. Chances are of landing in that tier or a rarer one, in the
+// poorest and the richest cells; other cells fall somewhere in between.
+const RARITY_TIERS: {
+  rarity: CoinRarity;
+  denomination: number;
+  poorest: number;
+  richest: number;
+}[] = [
+  { rarity: "legendary", denomination: 100, poorest: 0.002, richest: 0.06 },
+  { rarity: "rare", denomination: 25, poorest: 0.02, richest: 0.25 },
+  { rarity: "uncommon", denomination: 5, poorest: 0.1, richest: 0.6 },
+  { rarity: "common", denomination: 1, poorest: 1, richest: 1 },
+];
+
+export const COIN_RARITIES: readonly CoinRarity[] = RARITY_TIERS.map((tier) =>
+  tier.rarity
+);
+
+// Ids start "i:j#", naming the cell the coin was minted in. Squaring
+// keeps truly rich cells few and far between.
+function cellRichness(coinId: string, worldSeed?: string): number {
+  const cell = coinId.split("#")[0];
+  return /^-?\d+:-?\d+$/.test(cell)
+    ? luck(`${cell},richness`, worldSeed) ** 2
+    : 0;
+}
+
+// Graded in the current world unless worldSeed names another
+export function gradeCoin(coinId: string, worldSeed?: string): CoinGrade {
+  const richness = cellRichness(coinId, worldSeed);
+  const roll = luck(`${coinId},rarity`, worldSeed);
+  const tier = RARITY_TIERS.find((tier) =>
+    roll < tier.poorest + (tier.richest - tier.poorest) * richness
+  )!;
+  return { rarity: tier.rarity, denomination: tier.denomination };
+}
+
+export function walletValue(coins: readonly CoinGrade[]): number {
+  return coins.reduce((total, coin) => total + coin.denomination, 0);
+}
@@ -0,0 +1,78 @@
+// Undo/redo stacks for player actions.
+// Each entry records just enough to replay the action or take it back;
+// GameWorld does the actual replaying. The stacks persist with the save
+// through their memento.
+import type { CoinStop, Location, Momento } from "./gameWorld.ts";
+
+export type GameAction =
+  | { type: "move"; from: Location; to: Location }
+  | {
+    type: "collect" | "deposit";
+    cacheId: string;
+    coinId: string;
+    index: number; // Where the coin sat in the list it was taken from
+    stop: CoinStop; // The trail entry the action added to the coin
+    bonusCoinId?: string; // A second coin minted by a bonus cell collect
+  };
+
+export interface CommandHistoryState {
+  undo: GameAction[];
+  redo: GameAction[];
+}
+
+export class CommandHistory implements Momento<CommandHistoryState> {
+  readonly limit: number;
+  private undoStack: GameAction[] = [];
+  private redoStack: GameAction[] = [];
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // A new action makes anything that was undone unreachable
+  record(action: GameAction) {
+    this.undoStack.push(action);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift(); // Forget the oldest action
+    }
+    this.redoStack.length = 0;
+  }
+
+  takeUndo(): GameAction | undefined {
+    const action = this.undoStack.pop();
+    if (action) {
+      this.redoStack.push(action);
+    }
+    return action;
+  }
+
+  takeRedo(): GameAction | undefined {
+    const action = this.redoStack.pop();
+    if (action) {
+      this.undoStack.push(action);
+    }
+    return action;
+  }
+
+  clear() {
+    this.undoStack.length = 0;
+    this.redoStack.length = 0;
+  }
+
+  toMomento() {
+    return { undo: [...this.undoStack], redo: [...this.redoStack] };
+  }
+
+  fromMomento(momento: CommandHistoryState) {
+    this.undoStack = momento.undo.slice(-this.limit);
+    this.redoStack = momento.redo.slice(-this.limit);
+  }
+}
@@ -0,0 +1,216 @@
+/// <reference lib="deno.ns" />
+import assert from "node:assert/strict";
+import { GameStore, GameStoreOptions } from "./gameStore.ts";
+import {
+  LocalStorageBackend,
+  MemoryBackend,
+  SaveChanges,
+} from "./storageBackends.ts";
+import { GameState, Location } from "./gameWorld.ts";
+import { QuestLog } from "./quests.ts";
+import type { JournalEntry } from "./journal.ts";
+import { DEFAULT_WORLD_SETTINGS } from "./worldSettings.ts";
+
+const OPTIONS: GameStoreOptions = {
+  rawTailLength: 4,
+  compactBatch: 4,
+  simplifyTolerance: 2,
+};
+
+// Remembers every commit, to see how much each save wrote
+class RecordingBackend extends MemoryBackend {
+  readonly commits: SaveChanges[] = [];
+
+  override commit(gameId: string, changes: SaveChanges) {
+    this.commits.push(JSON.parse(JSON.stringify(changes)));
+    return super.commit(gameId, changes);
+  }
+}
+
+// Just enough of the Storage interface for LocalStorageBackend
+class MapStorage implements Storage {
+  private readonly items = new Map<string, string>();
+  [name: string]: unknown;
+
+  get length() {
+    return this.items.size;
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+function game(movementHistory: Location[] = []): GameState {
+  return {
+    playerCoins: [],
+    playerPosition: movementHistory[movementHistory.length - 1] ??
+      { lat: 0, lng: 0 },
+    cacheLocations: [
+      { id: "0,0", cell: { i: 0, j: 0 }, coins: [], refilledAt: 0 },
+      { id: "0,1", cell: { i: 0, j: 1 }, coins: [], refilledAt: 0 },
+    ],
+    geocacheMementos: {},
+    movementHistory,
+    commandHistory: { undo: [], redo: [] },
+    cellVisits: {},
+    discoveredCells: [],
+    quests: QuestLog.emptyState(),
+    worldSettings: DEFAULT_WORLD_SETTINGS,
+  };
+}
+
+// A straight walk north, so thinning keeps only its ends
+function walk(steps: number): Location[] {
+  return Array.from({ length: steps }, (_, n) => ({ lat: n * 1e-4, lng: 0 }));
+}
+
+Deno.test("a written game reads back the same", async () => {
+  const store = new GameStore(new MemoryBackend(), OPTIONS);
+  const state = game(walk(3));
+  const revision = await store.write("game", state, 1234);
+
+  const read = await store.read("game");
+  assert.ok(read);
+  assert.equal(read.revision, revision);
+  assert.equal(read.savedAt, 1234);
+  assert.deepEqual(read.state.movementHistory, state.movementHistory);
+  assert.deepEqual(
+    Object.keys(read.state.geocacheMementos).sort(),
+    ["0,0", "0,1"],
+  );
+  assert.equal(await store.read("missing"), undefined);
+});
+
+Deno.test("later saves only write what changed", async () => {
+  const backend = new RecordingBackend();
+  const store = new GameStore(backend, OPTIONS);
+  const state = game(walk(2));
+  await store.write("game", state);
+
+  state.movementHistory.push({ lat: 2e-4, lng: 0 });
+  state.cacheLocations[1].coins.push({
+    id: "0:1#0",
+    originatingCacheId: "0,1",
+    trail: [],
+    rarity: "common",
+    denomination: 1,
+  });
+  await store.write("game", state);
+
+  const [first, second] = backend.commits;
+  assert.equal(first.replace, true);
+  assert.equal(second.replace, false);
+  assert.deepEqual(second.history, {
+    from: 2,
+    points: [{ lat: 2e-4, lng: 0 }],
+  });
+  assert.deepEqual(second.putCaches.map((cache) => cache.id), ["0,1"]);
+});
+
+Deno.test("saves can leave out the route the store already holds", async () => {
+  const backend = new RecordingBackend();
+  const store = new GameStore(backend, OPTIONS);
+  const route = walk(12);
+  assert.equal(store.routeStart("game", route), 0);
+  await store.write("game", game(route));
+
+  // A long way on, with only the steps from routeStart passed along
+  route.push(...walk(16).slice(12));
+  const routeFrom = store.routeStart("game", route);
+  assert.ok(routeFrom > 0);
+  await store.write("game", game(route.slice(routeFrom)), 0, routeFrom);
+
+  const whole = new GameStore(new RecordingBackend(), OPTIONS);
+  await whole.write("game", game(walk(12)));
+  await whole.write("game", game(walk(16)));
+  const read = await store.read("game");
+  assert.ok(read);
+  assert.deepEqual(
+    read.state.movementHistory,
+    (await whole.read("game"))?.state.movementHistory,
+  );
+  assert.equal(backend.commits[1].replace, false);
+
+  // A route that no longer continues what was stored needs writing whole
+  assert.equal(store.routeStart("game", walk(2)), 0);
+  await assert.rejects(
+    () => store.write("game", game(walk(2).slice(1)), 0, 1),
+    Error,
+  );
+});
+
+Deno.test("old stretches of the route are thinned", async () => {
+  const store = new GameStore(new MemoryBackend(), OPTIONS);
+  const route = walk(12);
+  await store.write("game", game(route));
+
+  const read = await store.read("game");
+  assert.ok(read);
+  const kept = read.state.movementHistory;
+  assert.ok(kept.length < route.length);
+  assert.deepEqual(kept[0], route[0]);
+  assert.deepEqual(
+    kept.slice(-OPTIONS.rawTailLength),
+    route.slice(-OPTIONS.rawTailLength),
+  );
+});
+
+Deno.test("copy brings the journal along and delete leaves it", async () => {
+  const store = new GameStore(new MemoryBackend(), OPTIONS);
+  await store.write("game", game(walk(2)));
+  const entry: JournalEntry = {
+    id: "1",
+    type: "move",
+    source: "player",
+    position: { lat: 0, lng: 0 },
+    timestamp: 1,
+  };
+  await store.appendJournal("game", [entry]);
+
+  await store.copy("game", "copy");
+  assert.ok(await store.read("copy"));
+  assert.deepEqual(await store.readJournal("copy"), [entry]);
+
+  await store.delete("game");
+  assert.equal(await store.read("game"), undefined);
+  assert.deepEqual(await store.readJournal("game"), [entry]);
+});
+
+Deno.test("games in local storage outlast the backend", async () => {
+  const storage = new MapStorage();
+  const state = game(walk(3));
+  await new GameStore(new LocalStorageBackend(storage), OPTIONS).write(
+    "game",
+    state,
+  );
+  state.movementHistory.push({ lat: 3e-4, lng: 0 });
+  const store = new GameStore(new LocalStorageBackend(storage), OPTIONS);
+  await store.read("game");
+  await store.write("game", state);
+
+  const read = await new GameStore(new LocalStorageBackend(storage), OPTIONS)
+    .read("game");
+  assert.ok(read);
+  assert.deepEqual(read.state.movementHistory, state.movementHistory);
+  assert.deepEqual(
+    Object.keys(read.state.geocacheMementos).sort(),
+    ["0,0", "0,1"],
+  );
+});
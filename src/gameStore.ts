@@ -0,0 +1,326 @@
+// Saves and loads whole GameStates through a StorageBackend, writing only
+// what changed since the last save: new steps are appended and only caches
+// whose coins moved are rewritten. Old stretches of the route are thinned
+// with Douglas–Peucker so long sessions stay small.
+import { GameState, Geocache, listCaches, Location } from "./gameWorld.ts";
+import {
+  CURRENT_SAVE_VERSION,
+  migrateSave,
+  SaveEnvelope,
+} from "./saveFormat.ts";
+import { simplifyTrack } from "./trackSimplify.ts";
+import type { JournalEntry } from "./journal.ts";
+import type {
+  SaveChanges,
+  StorageBackend,
+  StoredCache,
+} from "./storageBackends.ts";
+
+export interface GameStoreOptions {
+  rawTailLength: number; // Recent points left untouched, so undo can pop them
+  compactBatch: number; // Raw points to gather beyond the tail before thinning
+  simplifyTolerance: number; // Metres a thinned route may stray from the real one
+}
+
+// What this store last wrote for a game, so the next save can send a diff.
+// The stored history is `simplified` followed by `recent`; indexes such as
+// rawStart count points in the world's full, unthinned history.
+interface SyncedGame {
+  simplified: Location[]; // The thinned leading part, as stored
+  rawStart: number; // World index of the first point stored as recorded
+  recent: Location[]; // World points from rawStart on, as stored
+  caches: Map<string, string>; // Cache id to its stored memento
+}
+
+function samePoint(a: Location, b: Location): boolean {
+  return a.lat === b.lat && a.lng === b.lng;
+}
+
+function newRevision(): string {
+  return `${Date.now().toString(36)}-${
+    Math.floor(Math.random() * 1e9).toString(36)
+  }`;
+}
+
+export class GameStore {
+  private readonly backend: Promise<StorageBackend>;
+  private readonly options: GameStoreOptions;
+  private readonly synced = new Map<string, SyncedGame>();
+
+  constructor(
+    backend: Promise<StorageBackend> | StorageBackend,
+    options: GameStoreOptions,
+  ) {
+    this.backend = Promise.resolve(backend);
+    this.options = options;
+  }
+
+  async readRevision(gameId: string): Promise<string | undefined> {
+    const head = await (await this.backend).readHead(gameId);
+    return head?.revision;
+  }
+
+  // The stored game put back together, before any migration or checks;
+  // undefined if nothing is stored for it
+  async readRaw(gameId: string) {
+    const backend = await this.backend;
+    const head = await backend.readHead(gameId);
+    if (!head) {
+      return undefined;
+    }
+    const history = await backend.readHistory(gameId);
+    const caches = await backend.readCaches(gameId);
+
+    // Caches come back as mementos; GameWorld rebuilds the on-screen ones
+    const geocacheMementos: { [key: string]: string } = {};
+    caches.forEach((cache) => {
+      geocacheMementos[cache.id] = new Geocache(
+        cache.i,
+        cache.j,
+        cache.coins,
+        cache.refilledAt,
+      ).toMomento();
+    });
+
+    return {
+      revision: head.revision,
+      simplifiedLength: head.simplifiedLength,
+      version: head.version,
+      savedAt: head.savedAt,
+      state: {
+        playerCoins: head.playerCoins,
+        playerPosition: head.playerPosition,
+        cacheLocations: [],
+        geocacheMementos,
+        movementHistory: history,
+        commandHistory: head.commandHistory,
+        cellVisits: head.cellVisits,
+        discoveredCells: head.discoveredCells,
+        quests: head.quests,
+        worldSettings: head.worldSettings,
+      },
+    };
+  }
+
+  // Load a game and remember it as the base for the next save's diff.
+  // Throws SaveFormatError if what is stored cannot be used.
+  async read(
+    gameId: string,
+  ): Promise<SaveEnvelope & { revision: string } | undefined> {
+    const raw = await this.readRaw(gameId);
+    if (!raw) {
+      this.synced.delete(gameId);
+      return undefined;
+    }
+
+    const envelope = migrateSave(raw);
+    const history = envelope.state.movementHistory;
+    const simplifiedLength = Math.min(raw.simplifiedLength, history.length);
+    this.synced.set(gameId, {
+      simplified: history.slice(0, simplifiedLength),
+      rawStart: simplifiedLength,
+      recent: history.slice(simplifiedLength),
+      caches: this.cacheMementos(envelope.state),
+    });
+    return { ...envelope, revision: raw.revision };
+  }
+
+  // Where the route the next write of a game needs to begin. The points
+  // before it are stored already, so a save can leave them out.
+  routeStart(gameId: string, route: readonly Location[]): number {
+    const synced = this.synced.get(gameId);
+    return synced && this.continuesFrom(synced, route, 0)
+      ? Math.max(synced.rawStart - 1, 0)
+      : 0;
+  }
+
+  // Save a game; returns the revision it was stored under. Its
+  // movementHistory may leave out the points before routeStart.
+  async write(
+    gameId: string,
+    gameState: GameState,
+    savedAt = Date.now(),
+    routeFrom = 0,
+  ): Promise<string> {
+    // World indexes are shifted by routeFrom to read the points given
+    const tail = gameState.movementHistory;
+    const routeLength = routeFrom + tail.length;
+    const point = (index: number) => tail[index - routeFrom];
+    const slice = (start: number, end = routeLength) =>
+      tail.slice(start - routeFrom, end - routeFrom);
+
+    const previous = this.synced.get(gameId);
+    const synced: SyncedGame = previous ?? {
+      simplified: [],
+      rawStart: 0,
+      recent: [],
+      caches: new Map(),
+    };
+    const replace = !previous ||
+      !this.continuesFrom(previous, tail, routeFrom);
+    if (replace && routeFrom > 0) {
+      throw new Error(`Game ${gameId} has to be written with its whole route`);
+    }
+    if (replace) {
+      synced.simplified = [];
+      synced.rawStart = 0;
+      synced.recent = [];
+      synced.caches = new Map();
+    }
+
+    // Step 1: the first stored point that no longer matches
+    let changedFrom = synced.rawStart;
+    while (
+      changedFrom < routeLength &&
+      changedFrom - synced.rawStart < synced.recent.length &&
+      samePoint(
+        point(changedFrom),
+        synced.recent[changedFrom - synced.rawStart],
+      )
+    ) {
+      changedFrom++;
+    }
+    const storedLength = synced.simplified.length + synced.recent.length;
+    let storedFrom = synced.simplified.length + changedFrom - synced.rawStart;
+
+    // Step 2: thin out old points once enough have piled up behind the tail
+    const { rawTailLength, compactBatch, simplifyTolerance } = this.options;
+    if (routeLength - synced.rawStart > rawTailLength + compactBatch) {
+      const rawEnd = routeLength - rawTailLength;
+      const lastKept = synced.simplified[synced.simplified.length - 1];
+      const thinned = simplifyTrack(
+        lastKept
+          ? [lastKept, ...slice(synced.rawStart, rawEnd)]
+          : slice(synced.rawStart, rawEnd),
+        simplifyTolerance,
+      );
+      storedFrom = Math.min(storedFrom, synced.simplified.length);
+      synced.simplified.push(...(lastKept ? thinned.slice(1) : thinned));
+      synced.rawStart = rawEnd;
+    }
+    synced.recent = slice(synced.rawStart);
+
+    const newStoredLength = synced.simplified.length + synced.recent.length;
+    const historyChanged = storedFrom < newStoredLength ||
+      newStoredLength !== storedLength;
+
+    // Step 3: only caches whose contents changed
+    const caches = this.cacheMementos(gameState);
+    const putCaches: StoredCache[] = [];
+    const deleteCaches: string[] = [];
+    listCaches(gameState).forEach((cache) => {
+      if (synced.caches.get(cache.id) !== caches.get(cache.id)) {
+        putCaches.push({
+          id: cache.id,
+          i: cache.cell.i,
+          j: cache.cell.j,
+          coins: cache.coins,
+          refilledAt: cache.refilledAt,
+        });
+      }
+    });
+    synced.caches.forEach((_, cacheId) => {
+      if (!caches.has(cacheId)) {
+        deleteCaches.push(cacheId);
+      }
+    });
+    synced.caches = caches;
+
+    const revision = newRevision();
+    const changes: SaveChanges = {
+      replace,
+      head: {
+        version: CURRENT_SAVE_VERSION,
+        savedAt,
+        revision,
+        playerCoins: gameState.playerCoins,
+        playerPosition: gameState.playerPosition,
+        commandHistory: gameState.commandHistory,
+        cellVisits: gameState.cellVisits,
+        discoveredCells: gameState.discoveredCells,
+        quests: gameState.quests,
+        worldSettings: gameState.worldSettings,
+        simplifiedLength: synced.simplified.length,
+      },
+      history: historyChanged
+        ? {
+          from: storedFrom,
+          points: [
+            ...synced.simplified.slice(storedFrom),
+            ...synced.recent.slice(
+              Math.max(storedFrom - synced.simplified.length, 0),
+            ),
+          ],
+        }
+        : undefined,
+      putCaches,
+      deleteCaches,
+    };
+
+    this.synced.delete(gameId); // Forget the base until the write lands
+    await (await this.backend).commit(gameId, changes);
+    this.synced.set(gameId, synced);
+    return revision;
+  }
+
+  // Copy a stored game and its journal to another id
+  async copy(fromId: string, toId: string) {
+    const raw = await this.readRaw(fromId);
+    if (raw) {
+      this.synced.delete(toId);
+      await this.write(toId, migrateSave(raw).state, raw.savedAt);
+    }
+    const backend = await this.backend;
+    await backend.appendJournal(toId, await backend.readJournal(fromId));
+  }
+
+  // The journal is left alone; see deleteJournal
+  async delete(gameId: string) {
+    this.synced.delete(gameId);
+    await (await this.backend).deleteGame(gameId);
+  }
+
+  async appendJournal(gameId: string, entries: JournalEntry[]) {
+    await (await this.backend).appendJournal(gameId, entries);
+  }
+
+  async readJournal(gameId: string): Promise<JournalEntry[]> {
+    return await (await this.backend).readJournal(gameId);
+  }
+
+  async deleteJournal(gameId: string) {
+    await (await this.backend).deleteJournal(gameId);
+  }
+
+  // Whether a history still begins with what was last written, give or
+  // take steps undone since; anything else has to be written afresh.
+  // `tail` is the history from index routeFrom on.
+  private continuesFrom(
+    synced: SyncedGame,
+    tail: readonly Location[],
+    routeFrom: number,
+  ): boolean {
+    if (routeFrom + tail.length < synced.rawStart) {
+      return false;
+    }
+    if (synced.rawStart > 0) {
+      const lastSimplified = synced.simplified[synced.simplified.length - 1];
+      const lastIndex = synced.rawStart - 1 - routeFrom;
+      return lastIndex >= 0 && samePoint(tail[lastIndex], lastSimplified);
+    }
+    return synced.recent.length === 0 || tail.length === 0 ||
+      (routeFrom === 0 && samePoint(tail[0], synced.recent[0]));
+  }
+
+  private cacheMementos(gameState: GameState): Map<string, string> {
+    const mementos = new Map<string, string>();
+    listCaches(gameState).forEach((cache) => {
+      mementos.set(
+        cache.id,
+        new Geocache(cache.cell.i, cache.cell.j, cache.coins, cache.refilledAt)
+          .toMomento(),
+      );
+    });
+    return mementos;
+  }
+}
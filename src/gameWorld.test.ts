@@ -0,0 +1,238 @@
+/// <reference lib="deno.ns" />
+import assert from "node:assert/strict";
+import { Board } from "./board.ts";
+import {
+  Cache,
+  distanceWalked,
+  GameEvents,
+  GameState,
+  GameWorld,
+  GameWorldOptions,
+} from "./gameWorld.ts";
+import { DEFAULT_WORLD_SETTINGS } from "./worldSettings.ts";
+
+const NOW = Date.UTC(2024, 0, 1);
+
+function createWorld(options: Partial<GameWorldOptions> = {}): GameWorld {
+  return new GameWorld({
+    board: new Board(
+      DEFAULT_WORLD_SETTINGS.tileWidth,
+      DEFAULT_WORLD_SETTINGS.visibilityRadius,
+    ),
+    worldSettings: DEFAULT_WORLD_SETTINGS,
+    // Every cache in sight can be used, so tests need not walk to one
+    interactionRadius: DEFAULT_WORLD_SETTINGS.visibilityRadius,
+    undoLimit: 100,
+    regenerationPeriod: 24 * 60 * 60 * 1000,
+    regenerationRate: 3,
+    quests: { dayLength: 24 * 60 * 60 * 1000, dailyQuestCount: 3 },
+    now: () => NOW,
+    ...options,
+  });
+}
+
+// A cache the player can use from the start, with coins to spare
+function cacheInReach(world: GameWorld): Cache {
+  const cache = world.getCaches().find((cache) =>
+    world.isCacheInReach(cache) && cache.coins.length > 1
+  );
+  assert.ok(cache, "the default world has a usable cache by the start");
+  return cache;
+}
+
+// A game as it would be written to a save
+function saved(world: GameWorld): GameState {
+  return JSON.parse(JSON.stringify(world.toGameState()));
+}
+
+function record<K extends keyof GameEvents>(
+  world: GameWorld,
+  type: K,
+): GameEvents[K][] {
+  const events: GameEvents[K][] = [];
+  world.on(type, (event) => events.push(event));
+  return events;
+}
+
+Deno.test("caches spawn the same way in every world built alike", () => {
+  const ids = (world: GameWorld) => world.getCaches().map((cache) => cache.id);
+  assert.deepEqual(ids(createWorld()), ids(createWorld()));
+});
+
+Deno.test("move steps the player and records the route", () => {
+  const world = createWorld();
+  const moves = record(world, "player-moved");
+  world.move("north");
+
+  const { start, moveDistance } = DEFAULT_WORLD_SETTINGS;
+  assert.deepEqual(world.getPlayerPosition(), {
+    lat: start.lat + moveDistance,
+    lng: start.lng,
+  });
+  assert.deepEqual(world.getMovementHistory(), [world.getPlayerPosition()]);
+  assert.equal(moves.length, 1);
+});
+
+Deno.test("collect takes the newest coin and adds a stop to its trail", () => {
+  const world = createWorld();
+  const cache = cacheInReach(world);
+  const newest = cache.coins[cache.coins.length - 1];
+  const held = cache.coins.length;
+
+  assert.ok(world.collect(cache.id));
+  assert.equal(cache.coins.length, held - 1);
+  assert.deepEqual(world.getPlayerCoins().map((coin) => coin.id), [newest.id]);
+  assert.deepEqual(world.getPlayerCoins()[0].trail, [{
+    action: "collected",
+    cacheId: cache.id,
+    cell: cache.cell,
+    timestamp: NOW,
+  }]);
+});
+
+Deno.test("deposit gives up the newest held coin", () => {
+  const world = createWorld();
+  const cache = cacheInReach(world);
+  const coinId = cache.coins[0].id;
+  world.collect(cache.id, coinId);
+
+  assert.ok(world.deposit(cache.id));
+  assert.deepEqual(world.getPlayerCoins(), []);
+  const deposited = cache.coins[cache.coins.length - 1];
+  assert.equal(deposited.id, coinId);
+  assert.deepEqual(deposited.trail.map((stop) => stop.action), [
+    "collected",
+    "deposited",
+  ]);
+});
+
+Deno.test("collect and deposit refuse what is not there", () => {
+  const world = createWorld();
+  const cache = cacheInReach(world);
+  const notices = record(world, "notice");
+
+  assert.equal(world.collect(cache.id, "no-such-coin"), false);
+  assert.equal(world.deposit(cache.id), false);
+  assert.deepEqual(notices.map((notice) => notice.severity), [
+    "warning",
+    "warning",
+  ]);
+});
+
+Deno.test("caches out of reach cannot be used", () => {
+  const world = createWorld({ interactionRadius: 0 });
+  const far = world.getCaches().find((cache) => !world.isCacheInReach(cache));
+  assert.ok(far, "some cache in sight is out of reach");
+  const notices = record(world, "notice");
+
+  assert.equal(world.collect(far.id), false);
+  assert.match(notices[0].message, /Walk closer/);
+});
+
+Deno.test("undo and redo take back and repeat a collect", () => {
+  const world = createWorld();
+  const cache = cacheInReach(world);
+  const before = cache.coins.map((coin) => coin.id);
+  world.collect(cache.id, before[0]);
+
+  assert.ok(world.undo());
+  assert.deepEqual(cache.coins.map((coin) => coin.id), before);
+  assert.deepEqual(cache.coins[0].trail, []);
+  assert.deepEqual(world.getPlayerCoins(), []);
+  assert.ok(world.canRedo());
+
+  assert.ok(world.redo());
+  assert.deepEqual(world.getPlayerCoins().map((coin) => coin.id), [before[0]]);
+  assert.equal(world.getPlayerCoins()[0].trail.length, 1);
+});
+
+Deno.test("undo takes back a move and a new action drops the redo", () => {
+  const world = createWorld();
+  world.move("east");
+  world.undo();
+
+  assert.deepEqual(world.getPlayerPosition(), DEFAULT_WORLD_SETTINGS.start);
+  assert.deepEqual(world.getMovementHistory(), []);
+  assert.ok(world.canRedo());
+
+  world.move("west");
+  assert.equal(world.canRedo(), false);
+  assert.equal(world.redo(), false);
+});
+
+Deno.test("the distance walked follows moves, undo and loads", () => {
+  const world = createWorld();
+  world.move("north");
+  world.move("east");
+  world.move("east");
+  const walked = () => distanceWalked(world.getMovementHistory());
+
+  assert.ok(world.getMetersWalked() > 0);
+  assert.equal(world.getMetersWalked(), walked());
+  world.undo();
+  assert.equal(world.getMetersWalked(), walked());
+
+  const loaded = createWorld();
+  loaded.loadGameState(saved(world));
+  assert.equal(loaded.getMetersWalked(), world.getMetersWalked());
+  loaded.reset();
+  assert.equal(loaded.getMetersWalked(), 0);
+});
+
+Deno.test("a game state can leave out the start of the route", () => {
+  const world = createWorld();
+  world.move("north");
+  world.move("east");
+
+  const { movementHistory } = world.toGameState(1);
+  assert.deepEqual(movementHistory, world.getMovementHistory().slice(1));
+});
+
+Deno.test("undo limit drops the oldest actions", () => {
+  const world = createWorld({ undoLimit: 2 });
+  world.move("north");
+  world.move("north");
+  world.move("north");
+
+  assert.ok(world.undo());
+  assert.ok(world.undo());
+  assert.equal(world.undo(), false);
+  assert.equal(world.getMovementHistory().length, 1);
+});
+
+Deno.test("a saved game loads back into a new world", () => {
+  const world = createWorld();
+  const cache = cacheInReach(world);
+  world.collect(cache.id);
+  world.move("south");
+
+  const loaded = createWorld();
+  loaded.loadGameState(saved(world));
+  assert.deepEqual(saved(loaded), saved(world));
+
+  // Undo history comes along too
+  assert.ok(loaded.undo());
+  assert.ok(loaded.undo());
+  assert.deepEqual(loaded.getPlayerCoins(), []);
+});
+
+Deno.test("reset returns to how a new game starts", () => {
+  const world = createWorld();
+  world.collect(cacheInReach(world).id);
+  world.move("north");
+  world.reset();
+
+  assert.deepEqual(saved(world), saved(createWorld()));
+});
+
+Deno.test("a revoked coin leaves the inventory and is announced", () => {
+  const world = createWorld();
+  world.collect(cacheInReach(world).id);
+  const [held] = world.getPlayerCoins();
+  const revoked = record(world, "coin-revoked");
+
+  assert.equal(world.revokeCoin(held.id), held);
+  assert.deepEqual(world.getPlayerCoins(), []);
+  assert.deepEqual(revoked, [{ coin: held }]);
+  assert.equal(world.revokeCoin(held.id), undefined);
+});
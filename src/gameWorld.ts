@@ -0,0 +1,1166 @@
+// Headless game rules: no DOM, no Leaflet, no alerts.
+// The UI in main.ts drives a GameWorld through its commands and
+// redraws itself from the events it emits.
+import luck from "./luck.ts";
+import type { Board, Cell } from "./board.ts";
+import type { WorldEventSchedule } from "./worldEvents.ts";
+import type { WorldSettings } from "./worldSettings.ts";
+import { CoinRarity, gradeCoin } from "./coinRarity.ts";
+import {
+  Achievement,
+  AchievementProgress,
+  DailyQuest,
+  QuestLog,
+  QuestLogOptions,
+  QuestLogState,
+  QuestMetric,
+  QuestProgress,
+  QuestUpdate,
+} from "./quests.ts";
+import {
+  CommandHistory,
+  CommandHistoryState,
+  GameAction,
+} from "./commandHistory.ts";
+
+// Roughly how many metres make up one degree of latitude
+export const METERS_PER_DEGREE = 111139;
+
+export interface Location {
+  lat: number;
+  lng: number;
+}
+
+// One hop in a coin's journey between caches
+export interface CoinStop {
+  action: "collected" | "deposited";
+  cacheId: string;
+  cell: Cell;
+  timestamp: number;
+}
+
+export interface Coin {
+  id: string;
+  originatingCacheId: string;
+  trail: CoinStop[]; // Every cache the coin has left or entered, oldest first
+  rarity: CoinRarity;
+  denomination: number;
+}
+
+export interface Cache {
+  cell: Cell;
+  coins: Coin[];
+  id: string;
+  refilledAt: number; // The last regeneration period it was topped up for
+}
+
+export interface GameState {
+  playerCoins: Coin[];
+  playerPosition: Location;
+  cacheLocations: Cache[];
+  geocacheMementos: { [key: string]: string };
+  movementHistory: Location[];
+  commandHistory: CommandHistoryState;
+  cellVisits: { [cellId: string]: number }; // Steps that ended in each cell
+  discoveredCells: string[]; // Every cell that has come within sight
+  quests: QuestLogState;
+  worldSettings: WorldSettings; // The world this game is played in
+}
+
+export type Direction =
+  | "north"
+  | "south"
+  | "east"
+  | "west"
+  | "northeast"
+  | "northwest"
+  | "southeast"
+  | "southwest";
+
+// How many steps of latitude and longitude each direction covers
+const DIRECTION_OFFSETS: {
+  [direction in Direction]: { dLat: number; dLng: number };
+} = {
+  north: { dLat: 1, dLng: 0 },
+  south: { dLat: -1, dLng: 0 },
+  east: { dLat: 0, dLng: 1 },
+  west: { dLat: 0, dLng: -1 },
+  northeast: { dLat: 1, dLng: 1 },
+  northwest: { dLat: 1, dLng: -1 },
+  southeast: { dLat: -1, dLng: 1 },
+  southwest: { dLat: -1, dLng: -1 },
+};
+
+// How a notice should be presented: failures are warnings, not errors,
+// since the player can always just try something else
+export type NoticeSeverity = "info" | "success" | "warning" | "error";
+
+// Whether an action was the player's own or an undo/redo of one
+export type ActionSource = "player" | "undo" | "redo";
+
+// Payloads for every event a GameWorld can emit
+export interface GameEvents {
+  "player-moved": { position: Location };
+  "caches-refreshed": { caches: readonly Cache[] };
+  "cache-changed": { cache: Cache };
+  "cache-refilled": {
+    cacheId: string;
+    coins: Coin[]; // Only the ones just minted
+    from: number; // The period it had last been refilled for
+    to: number;
+  };
+  "inventory-changed": { playerCoins: readonly Coin[] };
+  "coin-revoked": { coin: Coin };
+  "history-changed": { movementHistory: readonly Location[] };
+  "exploration-changed": {
+    cellVisits: ReadonlyMap<string, number>;
+    discoveredCells: ReadonlySet<string>;
+  };
+  "notice": { message: string; severity: NoticeSeverity };
+  "action": {
+    action: GameAction;
+    source: ActionSource;
+    position: Location; // Where the player stood once it was done
+    timestamp: number;
+  };
+  "quests-changed": {
+    achievements: AchievementProgress[];
+    quests: QuestProgress[];
+  };
+  "achievement-unlocked": { achievement: Achievement };
+  "quest-completed": { quest: DailyQuest };
+  "command-history-changed": { canUndo: boolean; canRedo: boolean };
+  "state-changed": Record<never, never>;
+  "reset": Record<never, never>;
+}
+
+export type GameListener<K extends keyof GameEvents> = (
+  event: GameEvents[K],
+) => void;
+
+export interface GameWorldOptions {
+  board: Board; // Laid out with the tile width in worldSettings
+  worldSettings: WorldSettings; // Start, step and cache odds come from here
+  interactionRadius: number; // How many cells away from the player a cache can be used
+  undoLimit: number; // How many actions can be undone
+  regenerationPeriod: number; // Milliseconds between cache refills
+  regenerationRate: number; // Most coins a cache can regain per period
+  events?: WorldEventSchedule; // Timed events such as bonus cells
+  quests: QuestLogOptions;
+  now?: () => number; // Clock used to timestamp coin trails
+}
+
+export interface Momento<T> {
+  toMomento(): T;
+  fromMomento(momento: T): void;
+}
+
+// Remembers exactly which coins a cache held while it was off screen
+export class Geocache implements Momento<string> {
+  i: number;
+  j: number;
+  coins: Coin[];
+  refilledAt: number;
+
+  constructor(i: number, j: number, coins: Coin[], refilledAt = 0) {
+    this.i = i;
+    this.j = j;
+    this.coins = coins;
+    this.refilledAt = refilledAt;
+  }
+
+  toMomento() {
+    return JSON.stringify({
+      i: this.i,
+      j: this.j,
+      coins: this.coins,
+      refilledAt: this.refilledAt,
+    });
+  }
+
+  fromMomento(momento: string) {
+    const { i, j, coins, refilledAt } = JSON.parse(momento);
+    this.i = i;
+    this.j = j;
+    this.coins = coins;
+    this.refilledAt = refilledAt;
+  }
+}
+
+// Approximate ground distance in metres; accurate enough at street scale
+export function distanceInMeters(from: Location, to: Location): number {
+  const distanceLat = (to.lat - from.lat) * METERS_PER_DEGREE;
+  const distanceLng = (to.lng - from.lng) *
+    (METERS_PER_DEGREE * Math.cos((from.lat + to.lat) / 2 * Math.PI / 180));
+  return Math.sqrt(distanceLat ** 2 + distanceLng ** 2);
+}
+
+// Length of a walked route, adding up each step
+export function distanceWalked(route: readonly Location[]): number {
+  let meters = 0;
+  for (let index = 1; index < route.length; index++) {
+    meters += distanceInMeters(route[index - 1], route[index]);
+  }
+  return meters;
+}
+
+export function stepFrom(
+  location: Location,
+  direction: Direction,
+  distance: number,
+): Location {
+  const { dLat, dLng } = DIRECTION_OFFSETS[direction];
+  return {
+    lat: location.lat + dLat * distance,
+    lng: location.lng + dLng * distance,
+  };
+}
+
+// Caches are identified by their cell, so the same cell is always the same cache
+export function cacheIdForCell(cell: Cell): string {
+  return `${cell.i},${cell.j}`;
+}
+
+export function cellForCacheId(cacheId: string): Cell | undefined {
+  const [i, j] = cacheId.split(",").map(Number);
+  if (Number.isInteger(i) && Number.isInteger(j)) {
+    return { i, j };
+  }
+  return undefined;
+}
+
+// The cells a coin has travelled through, starting at the cache it came from
+export function coinRoute(coin: Coin): Cell[] {
+  const route: Cell[] = [];
+  const origin = cellForCacheId(coin.originatingCacheId);
+  if (origin) {
+    route.push(origin);
+  }
+
+  coin.trail.forEach((stop) => {
+    const last = route[route.length - 1];
+    if (!last || last.i !== stop.cell.i || last.j !== stop.cell.j) {
+      route.push(stop.cell);
+    }
+  });
+  return route;
+}
+
+function restoreCoin(coin: Coin): Coin {
+  return {
+    id: coin.id,
+    originatingCacheId: coin.originatingCacheId,
+    trail: coin.trail.map((stop) => ({ ...stop })),
+    rarity: coin.rarity,
+    denomination: coin.denomination,
+  };
+}
+
+// A new coin, graded by its id
+function mintCoin(
+  id: string,
+  cacheId: string,
+  trail: CoinStop[] = [],
+  worldSeed?: string,
+): Coin {
+  return {
+    id,
+    originatingCacheId: cacheId,
+    trail,
+    ...gradeCoin(id, worldSeed),
+  };
+}
+
+function generateNumberOfCoins(cell: Cell, worldSeed?: string): number {
+  return Math.floor((luck(`${cell.i},${cell.j},coins`, worldSeed) * 10) + 1);
+}
+
+function generateCoins(
+  cell: Cell,
+  numCoins: number,
+  worldSeed?: string,
+): Coin[] {
+  const coins: Coin[] = [];
+  for (let serial = 0; serial < numCoins; serial++) {
+    const id = `${cell.i}:${cell.j}#${serial}`; // Compact coin ID
+    coins.push(mintCoin(id, cacheIdForCell(cell), [], worldSeed));
+  }
+  return coins;
+}
+
+// The coins a cache holds when it spawns. Like the helpers below, this
+// works in the current world unless worldSeed names another, as luck does.
+export function initialCoins(cell: Cell, worldSeed?: string): Coin[] {
+  return generateCoins(cell, generateNumberOfCoins(cell, worldSeed), worldSeed);
+}
+
+// Whether a cell holds a cache is decided by the cell alone
+export function cellHasCache(
+  cell: Cell,
+  cacheSpawnProbability: number,
+  worldSeed?: string,
+): boolean {
+  return luck(`${cell.i},${cell.j},spawn`, worldSeed) < cacheSpawnProbability;
+}
+
+// Refill a cache towards what it first held. For each period since its
+// last refill, luck seeded with the cell and period picks how many coins
+// come back, so every player sees the same amounts. A long absence only
+// counts as many periods as it could take to fill the cache.
+export function regenerateCoins(
+  cell: Cell,
+  coins: Coin[],
+  refilledAt: number,
+  period: number,
+  regenerationRate: number,
+  worldSeed?: string,
+) {
+  const capacity = generateNumberOfCoins(cell, worldSeed);
+  for (
+    let refill = Math.max(refilledAt + 1, period - capacity + 1);
+    refill <= period && coins.length < capacity;
+    refill++
+  ) {
+    const amount = Math.floor(
+      luck(`${cell.i},${cell.j},regen,${refill}`, worldSeed) *
+        (regenerationRate + 1),
+    );
+    for (
+      let serial = 0;
+      serial < amount && coins.length < capacity;
+      serial++
+    ) {
+      coins.push(
+        mintCoin(
+          `${cell.i}:${cell.j}#${refill}.${serial}`,
+          cacheIdForCell(cell),
+          [],
+          worldSeed,
+        ),
+      );
+    }
+  }
+}
+
+// How much of a cache is left: "untouched" until a coin is first taken
+// from or left in it, then full, partly emptied or empty by what it held
+export type CacheState = "untouched" | "full" | "partial" | "empty";
+
+export function cacheState(cache: Cache): CacheState {
+  const minted = initialCoins(cache.cell);
+  if (cache.coins.length === 0) {
+    return "empty";
+  }
+  if (
+    cache.coins.length === minted.length &&
+    cache.coins.every((coin, index) =>
+      coin.id === minted[index].id && coin.trail.length === 0
+    )
+  ) {
+    return "untouched"; // Refilled coins would have other ids
+  }
+  return cache.coins.length >= minted.length ? "full" : "partial";
+}
+
+// Every cache in a saved game, whether on screen or remembered off screen
+export function listCaches(gameState: GameState): Cache[] {
+  const caches = [...gameState.cacheLocations];
+  const onScreen = new Set(caches.map((cache) => cache.id));
+  for (const key in gameState.geocacheMementos) {
+    if (!onScreen.has(key)) {
+      const geocache = new Geocache(0, 0, []);
+      geocache.fromMomento(gameState.geocacheMementos[key]);
+      caches.push({
+        cell: { i: geocache.i, j: geocache.j },
+        coins: geocache.coins,
+        id: key,
+        refilledAt: geocache.refilledAt,
+      });
+    }
+  }
+  return caches;
+}
+
+// Every coin in a saved game, held by the player or sitting in a cache
+export function listCoins(gameState: GameState): Coin[] {
+  const coins = [...gameState.playerCoins];
+  listCaches(gameState).forEach((cache) => coins.push(...cache.coins));
+  return coins;
+}
+
+export class GameWorld {
+  readonly board: Board;
+  readonly worldSettings: WorldSettings;
+  readonly origin: Location;
+  readonly moveDistance: number;
+  readonly cacheSpawnProbability: number;
+  readonly interactionRadius: number;
+  readonly regenerationPeriod: number;
+  readonly regenerationRate: number;
+  readonly events?: WorldEventSchedule;
+  private readonly now: () => number;
+
+  private playerCoins: Coin[] = []; // Held coins, oldest first
+  private playerPosition: Location;
+  private readonly caches: Cache[] = [];
+  private readonly movementHistory: Location[] = [];
+  private readonly routeMeters: number[] = []; // Metres walked by each point
+  private readonly commandHistory: CommandHistory;
+  private readonly questLog: QuestLog;
+
+  // Dictionary to store mementos for each cache location
+  private readonly geocacheMementos: { [key: string]: string } = {};
+
+  // Where the player has been, keyed like caches by cacheIdForCell
+  private readonly cellVisits = new Map<string, number>();
+  private readonly discoveredCells = new Set<string>();
+
+  private readonly listeners = new Map<
+    keyof GameEvents,
+    Set<GameListener<never>>
+  >();
+
+  constructor(options: GameWorldOptions) {
+    this.board = options.board;
+    this.worldSettings = options.worldSettings;
+    this.origin = options.worldSettings.start;
+    this.moveDistance = options.worldSettings.moveDistance;
+    this.cacheSpawnProbability = options.worldSettings.cacheSpawnProbability;
+    this.interactionRadius = options.interactionRadius;
+    this.regenerationPeriod = options.regenerationPeriod;
+    this.regenerationRate = options.regenerationRate;
+    this.events = options.events;
+    this.now = options.now ?? Date.now;
+    this.commandHistory = new CommandHistory(options.undoLimit);
+    this.questLog = new QuestLog(options.quests);
+    this.playerPosition = this.origin;
+    this.refreshCaches();
+  }
+
+  // Subscribe to an event; returns a function that unsubscribes
+  on<K extends keyof GameEvents>(
+    type: K,
+    listener: GameListener<K>,
+  ): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  private emit<K extends keyof GameEvents>(type: K, event: GameEvents[K]) {
+    this.listeners.get(type)?.forEach((listener) =>
+      (listener as GameListener<K>)(event)
+    );
+  }
+
+  getPlayerCoins(): readonly Coin[] {
+    return this.playerCoins;
+  }
+
+  getPlayerPosition(): Location {
+    return this.playerPosition;
+  }
+
+  getCaches(): readonly Cache[] {
+    return this.caches;
+  }
+
+  findCache(cacheId: string): Cache | undefined {
+    return this.caches.find((cache) => cache.id === cacheId);
+  }
+
+  getMovementHistory(): readonly Location[] {
+    return this.movementHistory;
+  }
+
+  // Kept as the route grows and shrinks, so it costs nothing to ask
+  getMetersWalked(): number {
+    return this.routeMeters[this.routeMeters.length - 1] ?? 0;
+  }
+
+  getCellVisits(): ReadonlyMap<string, number> {
+    return this.cellVisits;
+  }
+
+  getDiscoveredCells(): ReadonlySet<string> {
+    return this.discoveredCells;
+  }
+
+  getAchievements(): AchievementProgress[] {
+    return this.questLog.achievements();
+  }
+
+  getDailyQuests(): QuestProgress[] {
+    return this.questLog.quests(this.now());
+  }
+
+  // When the current daily quests give way to new ones
+  getNextQuestDay(): number {
+    return this.questLog.nextDayAt(this.now());
+  }
+
+  // A cache can be used when its cell is within interactionRadius cells of
+  // the player's cell in every direction, diagonals included
+  isCacheInReach(cache: Cache): boolean {
+    const playerCell = this.board.getCellForPoint(this.playerPosition);
+    return Math.abs(cache.cell.i - playerCell.i) <= this.interactionRadius &&
+      Math.abs(cache.cell.j - playerCell.j) <= this.interactionRadius;
+  }
+
+  // Whether collecting from a cache right now pays a second coin
+  isBonusCache(cache: Cache): boolean {
+    const event = this.events?.eventAt(this.now());
+    return event !== undefined && this.events!.isBonusCell(cache.cell, event);
+  }
+
+  // Metres from the player to the middle of the cache's cell
+  distanceToCache(cache: Cache): number {
+    return distanceInMeters(
+      this.playerPosition,
+      this.board.getCellCenter(cache.cell),
+    );
+  }
+
+  // Step the player one MOVE_DISTANCE in a compass direction
+  move(direction: Direction) {
+    this.moveTo(stepFrom(this.playerPosition, direction, this.moveDistance));
+  }
+
+  // Place the player at an absolute position. Every way of moving ends up
+  // here, so history, cache refresh and saving never depend on the source.
+  moveTo(position: Location) {
+    const previous = this.playerPosition;
+    if (previous.lat === position.lat && previous.lng === position.lng) {
+      return; // Repeated fixes for the same spot are not a move
+    }
+
+    this.recordAndApply({
+      type: "move",
+      from: previous,
+      to: { lat: position.lat, lng: position.lng },
+    });
+  }
+
+  // Move a coin from a cache into the player's inventory.
+  // Without a coinId the most recently deposited coin is taken.
+  collect(cacheId: string, coinId?: string): boolean {
+    const cache = this.findCache(cacheId);
+    if (!cache || !this.checkReach(cache)) {
+      return false;
+    }
+
+    if (cache.coins.length === 0) {
+      this.emit("notice", {
+        message: "No coins left to collect in this cache!",
+        severity: "warning",
+      });
+      return false;
+    }
+
+    const index = coinId === undefined
+      ? cache.coins.length - 1
+      : cache.coins.findIndex((coin) => coin.id === coinId);
+    if (index < 0) {
+      this.emit("notice", {
+        message: `Coin ${coinId} is not in this cache.`,
+        severity: "warning",
+      });
+      return false;
+    }
+
+    // A bonus coin's id is the collected coin's plus how often that coin
+    // had moved, which no other collect can repeat
+    const collectedCoin = cache.coins[index];
+    const bonusCoinId = this.isBonusCache(cache)
+      ? `${collectedCoin.id}+${collectedCoin.trail.length}`
+      : undefined;
+    this.recordAndApply({
+      type: "collect",
+      cacheId,
+      coinId: collectedCoin.id,
+      index,
+      stop: this.createStop("collected", cache),
+      bonusCoinId,
+    });
+    this.emit("notice", {
+      message: bonusCoinId
+        ? `Bonus cell! Collected coins ${collectedCoin.id} and ${bonusCoinId}. Player now has ${this.playerCoins.length} coins.`
+        : `Collected a coin with ID ${collectedCoin.id}. Player now has ${this.playerCoins.length} coins.`,
+      severity: "success",
+    });
+    return true;
+  }
+
+  // Move a held coin into a cache.
+  // Without a coinId the most recently collected coin is given up.
+  deposit(cacheId: string, coinId?: string): boolean {
+    const cache = this.findCache(cacheId);
+    if (!cache || !this.checkReach(cache)) {
+      return false;
+    }
+
+    if (this.playerCoins.length === 0) {
+      this.emit("notice", {
+        message: "No coins available to deposit!",
+        severity: "warning",
+      });
+      return false;
+    }
+
+    const index = coinId === undefined
+      ? this.playerCoins.length - 1
+      : this.playerCoins.findIndex((coin) => coin.id === coinId);
+    if (index < 0) {
+      this.emit("notice", {
+        message: `You are not holding coin ${coinId}.`,
+        severity: "warning",
+      });
+      return false;
+    }
+
+    const depositedCoin = this.playerCoins[index];
+    this.recordAndApply({
+      type: "deposit",
+      cacheId,
+      coinId: depositedCoin.id,
+      index,
+      stop: this.createStop("deposited", cache),
+    });
+    this.emit("notice", {
+      message:
+        `Deposited coin ${depositedCoin.id}. Player now has ${this.playerCoins.length} coins. Cache now has ${cache.coins.length} coins.`,
+      severity: "success",
+    });
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.commandHistory.canUndo();
+  }
+
+  canRedo(): boolean {
+    return this.commandHistory.canRedo();
+  }
+
+  // Take back the most recent move, collect or deposit
+  undo(): boolean {
+    const action = this.commandHistory.takeUndo();
+    if (!action) {
+      this.emit("notice", { message: "Nothing to undo.", severity: "info" });
+      return false;
+    }
+    if (!this.revertAction(action)) {
+      this.abandonCommandHistory();
+      return false;
+    }
+    this.emitAction(action, "undo");
+
+    if (action.type !== "move") {
+      this.emit("notice", {
+        message: `Undid ${
+          action.type === "collect" ? "collecting" : "depositing"
+        } coin ${action.coinId}.`,
+        severity: "info",
+      });
+    }
+    this.emitCommandHistory();
+    return true;
+  }
+
+  // Repeat the most recently undone action
+  redo(): boolean {
+    const action = this.commandHistory.takeRedo();
+    if (!action) {
+      this.emit("notice", { message: "Nothing to redo.", severity: "info" });
+      return false;
+    }
+    if (!this.applyAction(action)) {
+      this.abandonCommandHistory();
+      return false;
+    }
+    this.emitAction(action, "redo");
+
+    if (action.type !== "move") {
+      this.emit("notice", {
+        message: `Redid ${
+          action.type === "collect" ? "collecting" : "depositing"
+        } coin ${action.coinId}.`,
+        severity: "info",
+      });
+    }
+    this.emitCommandHistory();
+    return true;
+  }
+
+  // Take on caches as another source has them, such as the multiplayer
+  // server. Ones on screen are redrawn and topped up for any periods they
+  // missed; the rest are remembered until they come into view.
+  adoptCaches(caches: readonly Cache[]) {
+    const period = this.currentPeriod();
+    caches.forEach((remote) => {
+      const coins = remote.coins.map(restoreCoin);
+      const cache = this.findCache(remote.id);
+      if (cache) {
+        this.topUp(remote.id, cache.cell, coins, remote.refilledAt, period);
+        cache.coins = coins;
+        cache.refilledAt = Math.max(remote.refilledAt, period);
+        this.emit("cache-changed", { cache });
+      } else {
+        this.geocacheMementos[remote.id] = new Geocache(
+          remote.cell.i,
+          remote.cell.j,
+          coins,
+          remote.refilledAt,
+        ).toMomento();
+      }
+    });
+    if (caches.length > 0) {
+      this.emit("state-changed", {});
+    }
+  }
+
+  // Give up a held coin that turned out not to be the player's, such as
+  // one another player collected first. Undo can no longer bring it back.
+  revokeCoin(coinId: string): Coin | undefined {
+    const index = this.playerCoins.findIndex((coin) => coin.id === coinId);
+    if (index < 0) {
+      return undefined;
+    }
+    const [coin] = this.playerCoins.splice(index, 1);
+    this.emit("coin-revoked", { coin });
+    this.emit("inventory-changed", { playerCoins: this.playerCoins });
+    this.emit("state-changed", {});
+    return coin;
+  }
+
+  // Return every coin, cache and step to how a new game starts
+  reset() {
+    this.playerCoins = [];
+    this.playerPosition = this.origin;
+    this.movementHistory.length = 0;
+    this.routeMeters.length = 0;
+    this.commandHistory.clear();
+    this.cellVisits.clear();
+    this.discoveredCells.clear();
+    this.questLog.clear();
+    this.caches.length = 0;
+    for (const key in this.geocacheMementos) {
+      delete this.geocacheMementos[key];
+    }
+    this.refreshCaches();
+
+    this.emit("reset", {});
+    this.emit("player-moved", { position: this.playerPosition });
+    this.emit("inventory-changed", { playerCoins: this.playerCoins });
+    this.emit("history-changed", { movementHistory: this.movementHistory });
+    this.emitCommandHistory();
+    this.emitQuests();
+  }
+
+  // Only the route from routeFrom on is copied into movementHistory, so a
+  // save that already holds the points before it need not copy them again
+  toGameState(routeFrom = 0): GameState {
+    const cellVisits: { [cellId: string]: number } = {};
+    this.cellVisits.forEach((visits, cellId) => {
+      cellVisits[cellId] = visits;
+    });
+    const route = this.movementHistory.slice(routeFrom);
+
+    return {
+      playerCoins: this.playerCoins.map((coin) => ({ ...coin })),
+      playerPosition: {
+        lat: this.playerPosition.lat,
+        lng: this.playerPosition.lng,
+      },
+      cacheLocations: this.caches.map((cache) => ({
+        id: cache.id,
+        coins: cache.coins,
+        cell: cache.cell,
+        refilledAt: cache.refilledAt,
+      })),
+      geocacheMementos: { ...this.geocacheMementos },
+      movementHistory: route.map((location) => ({
+        lat: location.lat,
+        lng: location.lng,
+      })),
+      commandHistory: this.commandHistory.toMomento(),
+      cellVisits,
+      discoveredCells: Array.from(this.discoveredCells),
+      quests: this.questLog.toMomento(),
+      worldSettings: JSON.parse(JSON.stringify(this.worldSettings)),
+    };
+  }
+
+  // The save should come from this same world: its worldSettings are kept
+  // as they were given to the constructor
+  loadGameState(gameState: GameState) {
+    // Restore player's coins
+    this.playerCoins = gameState.playerCoins.map(restoreCoin);
+
+    // Restore player location
+    this.playerPosition = {
+      lat: gameState.playerPosition.lat,
+      lng: gameState.playerPosition.lng,
+    };
+
+    // Restore cache locations
+    this.caches.length = 0; // Clear any existing caches
+    gameState.cacheLocations.forEach((cacheData) => {
+      this.caches.push({
+        id: cacheData.id,
+        coins: cacheData.coins.map(restoreCoin),
+        cell: cacheData.cell,
+        refilledAt: cacheData.refilledAt,
+      });
+    });
+
+    // Restore what was remembered about caches that were off screen
+    for (const key in this.geocacheMementos) {
+      delete this.geocacheMementos[key];
+    }
+    for (const key in gameState.geocacheMementos) {
+      this.geocacheMementos[key] = gameState.geocacheMementos[key];
+    }
+
+    // Restore the movement history
+    this.movementHistory.length = 0; // Clear existing movement history
+    this.routeMeters.length = 0;
+    gameState.movementHistory.forEach((location) => {
+      this.extendRoute({ lat: location.lat, lng: location.lng });
+    });
+
+    // Restore what can be undone and redone
+    this.commandHistory.fromMomento(gameState.commandHistory);
+
+    // Restore where the player has been; saves from before exploration was
+    // tracked have none, so it is worked out again from the route
+    this.cellVisits.clear();
+    for (const cellId in gameState.cellVisits) {
+      this.cellVisits.set(cellId, gameState.cellVisits[cellId]);
+    }
+    this.discoveredCells.clear();
+    gameState.discoveredCells.forEach((cellId) =>
+      this.discoveredCells.add(cellId)
+    );
+    if (this.cellVisits.size === 0) {
+      this.movementHistory.forEach((location) => {
+        this.addVisit(location, 1);
+        this.discoverAround(location);
+      });
+    }
+
+    // Restore achievements and quests, unlocking any the save has reached
+    this.questLog.fromMomento(gameState.quests);
+
+    this.emit("player-moved", { position: this.playerPosition });
+    this.emit("inventory-changed", { playerCoins: this.playerCoins });
+    this.emit("history-changed", { movementHistory: this.movementHistory });
+    this.emitCommandHistory();
+    this.emitQuests([this.questLog.check(this.now())]);
+
+    this.refreshCaches(); // Update cache visibility based on player location
+  }
+
+  private recordAndApply(action: GameAction) {
+    this.commandHistory.record(action);
+    this.applyAction(action);
+    this.emitAction(action, "player");
+    this.emitCommandHistory();
+  }
+
+  private emitAction(action: GameAction, source: ActionSource) {
+    this.emit("action", {
+      action,
+      source,
+      position: this.playerPosition,
+      timestamp: this.now(),
+    });
+    this.trackQuests(action, source);
+  }
+
+  // Count an action towards achievements and daily quests. It has already
+  // been done or undone, and undoing counts it back off again.
+  private trackQuests(action: GameAction, source: ActionSource) {
+    const sign = source === "undo" ? -1 : 1;
+    const now = this.now();
+    const updates: QuestUpdate[] = [];
+    const record = (metric: QuestMetric, amount: number) =>
+      updates.push(this.questLog.record(metric, sign * amount, now));
+
+    if (action.type === "move") {
+      record("metersWalked", distanceInMeters(action.from, action.to));
+      const cellId = cacheIdForCell(this.board.getCellForPoint(action.to));
+      if ((this.cellVisits.get(cellId) ?? 0) === (sign > 0 ? 1 : 0)) {
+        record("cellsVisited", 1); // First time in, or that step taken back
+      }
+    } else {
+      const coin = [
+        ...this.playerCoins,
+        ...(this.findCache(action.cacheId)?.coins ?? []),
+      ].find((coin) => coin.id === action.coinId);
+      if (action.type === "collect") {
+        record("coinsCollected", action.bonusCoinId ? 2 : 1);
+        if (coin?.rarity === "rare" || coin?.rarity === "legendary") {
+          record("rareCoinsCollected", 1);
+        }
+      } else {
+        record("coinsDeposited", 1);
+        if (coin?.originatingCacheId === action.cacheId) {
+          record("coinsReturned", 1);
+        }
+      }
+    }
+    this.emitQuests(updates);
+  }
+
+  private emitQuests(updates: QuestUpdate[] = []) {
+    updates.forEach(({ unlocked, completed }) => {
+      unlocked.forEach((achievement) =>
+        this.emit("achievement-unlocked", { achievement })
+      );
+      completed.forEach((quest) => this.emit("quest-completed", { quest }));
+    });
+    this.emit("quests-changed", {
+      achievements: this.questLog.achievements(),
+      quests: this.questLog.quests(this.now()),
+    });
+  }
+
+  private extendRoute(location: Location) {
+    const last = this.movementHistory[this.movementHistory.length - 1];
+    this.routeMeters.push(
+      last ? this.getMetersWalked() + distanceInMeters(last, location) : 0,
+    );
+    this.movementHistory.push(location);
+  }
+
+  // Carry out an action, whether for the first time or as a redo
+  private applyAction(action: GameAction): boolean {
+    if (action.type === "move") {
+      this.addVisit(action.to, 1);
+      this.placePlayer(action.to);
+      this.extendRoute(action.to);
+      this.emit("history-changed", { movementHistory: this.movementHistory });
+      this.emit("state-changed", {});
+      return true;
+    }
+
+    const cache = this.findCache(action.cacheId);
+    if (!cache) {
+      return false;
+    }
+
+    const [from, to] = action.type === "collect"
+      ? [cache.coins, this.playerCoins]
+      : [this.playerCoins, cache.coins];
+    const index = from.findIndex((coin) => coin.id === action.coinId);
+    if (index < 0) {
+      return false;
+    }
+
+    const [coin] = from.splice(index, 1);
+    coin.trail.push({ ...action.stop });
+    to.push(coin);
+    if (action.type === "collect" && action.bonusCoinId) {
+      this.playerCoins.push(
+        mintCoin(action.bonusCoinId, cache.id, [{ ...action.stop }]),
+      );
+    }
+    this.emitTransfer(cache);
+    return true;
+  }
+
+  // Undo an action; the world must be exactly as the action left it
+  private revertAction(action: GameAction): boolean {
+    if (action.type === "move") {
+      this.movementHistory.pop();
+      this.routeMeters.pop();
+      this.addVisit(action.to, -1); // Cells stay discovered, though
+      this.placePlayer(action.from);
+      this.emit("history-changed", { movementHistory: this.movementHistory });
+      this.emit("state-changed", {});
+      return true;
+    }
+
+    const cache = this.findCache(action.cacheId);
+    if (!cache) {
+      return false;
+    }
+
+    const [from, to] = action.type === "collect"
+      ? [this.playerCoins, cache.coins]
+      : [cache.coins, this.playerCoins];
+    const index = from.findIndex((coin) => coin.id === action.coinId);
+    if (index < 0) {
+      return false;
+    }
+
+    const [coin] = from.splice(index, 1);
+    coin.trail.pop();
+    to.splice(action.index, 0, coin); // Put it back where it was
+    if (action.type === "collect" && action.bonusCoinId) {
+      this.playerCoins = this.playerCoins.filter((held) =>
+        held.id !== action.bonusCoinId
+      );
+    }
+    this.emitTransfer(cache);
+    return true;
+  }
+
+  private addVisit(position: Location, count: number) {
+    const cellId = cacheIdForCell(this.board.getCellForPoint(position));
+    const visits = (this.cellVisits.get(cellId) ?? 0) + count;
+    if (visits > 0) {
+      this.cellVisits.set(cellId, visits);
+    } else {
+      this.cellVisits.delete(cellId);
+    }
+  }
+
+  // Lift the fog from every cell within sight of a position
+  private discoverAround(position: Location) {
+    this.board.getCellsNearPoint(position).forEach((cell) => {
+      this.discoveredCells.add(cacheIdForCell(cell));
+    });
+  }
+
+  private placePlayer(position: Location) {
+    this.playerPosition = position;
+    this.emit("player-moved", { position: this.playerPosition });
+    this.refreshCaches();
+  }
+
+  private emitTransfer(cache: Cache) {
+    this.emit("cache-changed", { cache });
+    this.emit("inventory-changed", { playerCoins: this.playerCoins });
+    this.emit("state-changed", {});
+  }
+
+  private emitCommandHistory() {
+    this.emit("command-history-changed", {
+      canUndo: this.commandHistory.canUndo(),
+      canRedo: this.commandHistory.canRedo(),
+    });
+  }
+
+  // Only reachable if the saved history no longer matches the world
+  private abandonCommandHistory() {
+    this.commandHistory.clear();
+    this.emitCommandHistory();
+    this.emit("state-changed", {});
+    this.emit("notice", {
+      message: "That action can no longer be undone or redone.",
+      severity: "warning",
+    });
+  }
+
+  private checkReach(cache: Cache): boolean {
+    if (this.isCacheInReach(cache)) {
+      return true;
+    }
+    this.emit("notice", {
+      message: `That cache is ${
+        Math.round(this.distanceToCache(cache))
+      } m away. Walk closer to use it.`,
+      severity: "warning",
+    });
+    return false;
+  }
+
+  private createStop(action: CoinStop["action"], cache: Cache): CoinStop {
+    return {
+      action,
+      cacheId: cache.id,
+      cell: { i: cache.cell.i, j: cache.cell.j },
+      timestamp: this.now(),
+    };
+  }
+
+  hasCacheAt(cell: Cell): boolean {
+    return cellHasCache(cell, this.cacheSpawnProbability);
+  }
+
+  private syncCachesWithMementos() {
+    this.caches.forEach((cache) => {
+      const key = cacheIdForCell(cache.cell);
+      this.geocacheMementos[key] = new Geocache(
+        cache.cell.i,
+        cache.cell.j,
+        cache.coins,
+        cache.refilledAt,
+      ).toMomento();
+    });
+
+    // Clear the cache locations array for regeneration
+    this.caches.length = 0;
+  }
+
+  private currentPeriod(): number {
+    return Math.floor(this.now() / this.regenerationPeriod);
+  }
+
+  // Regenerate a cache's coins up to the current period, telling anyone
+  // sharing the cache which coins that minted
+  private topUp(
+    cacheId: string,
+    cell: Cell,
+    coins: Coin[],
+    refilledAt: number,
+    period: number,
+  ) {
+    if (period <= refilledAt) {
+      return;
+    }
+    const held = coins.length;
+    regenerateCoins(cell, coins, refilledAt, period, this.regenerationRate);
+    this.emit("cache-refilled", {
+      cacheId,
+      coins: coins.slice(held),
+      from: refilledAt,
+      to: period,
+    });
+  }
+
+  // Rebuild the caches for the cells around the player's current position
+  private refreshCaches() {
+    // Step 1: Synchronize cache state with mementos
+    this.syncCachesWithMementos();
+
+    // Step 2: Spawn a cache in every nearby cell that luck picks
+    this.board.getCellsNearPoint(this.playerPosition).forEach((cell) => {
+      if (!this.hasCacheAt(cell)) {
+        return;
+      }
+
+      const key = cacheIdForCell(cell);
+      const period = this.currentPeriod();
+      let coins: Coin[];
+
+      if (this.geocacheMementos[key]) {
+        // Restore state from the memento, then top it up for lost time
+        const geocache = new Geocache(cell.i, cell.j, []);
+        geocache.fromMomento(this.geocacheMementos[key]);
+        coins = geocache.coins;
+        this.topUp(key, cell, coins, geocache.refilledAt, period);
+      } else {
+        coins = initialCoins(cell);
+      }
+
+      this.caches.push({ cell, coins, id: key, refilledAt: period });
+    });
+
+    // Step 3: Everything now in sight counts as discovered
+    this.discoverAround(this.playerPosition);
+
+    // Step 4: Let the UI redraw the cache layer and the explored area
+    this.emit("caches-refreshed", { caches: this.caches });
+    this.emit("exploration-changed", {
+      cellVisits: this.cellVisits,
+      discoveredCells: this.discoveredCells,
+    });
+  }
+}
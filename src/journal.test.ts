@@ -0,0 +1,81 @@
+/// <reference lib="deno.ns" />
+import assert from "node:assert/strict";
+import {
+  journalEntriesForAction,
+  journalEntriesForRefill,
+  journalEntryForRevoke,
+} from "./journal.ts";
+import type { Coin } from "./gameWorld.ts";
+
+const POSITION = { lat: 36.9895, lng: -122.0628 };
+const STOP = {
+  action: "collected" as const,
+  cacheId: "36989,-122063",
+  cell: { i: 36989, j: -122063 },
+  timestamp: 1,
+};
+
+function coin(id: string): Coin {
+  return {
+    id,
+    originatingCacheId: "36989,-122063",
+    trail: [],
+    rarity: "common",
+    denomination: 1,
+  };
+}
+
+Deno.test("a bonus cell collect logs the bonus coin too", () => {
+  const entries = journalEntriesForAction({
+    action: {
+      type: "collect",
+      cacheId: "36989,-122063",
+      coinId: "36989:-122063#0",
+      index: 0,
+      stop: STOP,
+      bonusCoinId: "36989:-122063#0+0",
+    },
+    source: "player",
+    position: POSITION,
+    timestamp: 1,
+  });
+
+  assert.deepEqual(
+    entries.map(({ type, coinId, cacheId }) => ({ type, coinId, cacheId })),
+    [
+      {
+        type: "collect",
+        coinId: "36989:-122063#0",
+        cacheId: "36989,-122063",
+      },
+      {
+        type: "bonus",
+        coinId: "36989:-122063#0+0",
+        cacheId: "36989,-122063",
+      },
+    ],
+  );
+  assert.notEqual(entries[0].id, entries[1].id);
+});
+
+Deno.test("refills log each minted coin and revokes the coin lost", () => {
+  const refills = journalEntriesForRefill(
+    {
+      cacheId: "36989,-122063",
+      coins: [coin("36989:-122063#5.0"), coin("36989:-122063#5.1")],
+      from: 4,
+      to: 5,
+    },
+    POSITION,
+    2,
+  );
+  assert.deepEqual(refills.map((entry) => [entry.type, entry.coinId]), [
+    ["refill", "36989:-122063#5.0"],
+    ["refill", "36989:-122063#5.1"],
+  ]);
+  assert.deepEqual(refills[0].cell, { i: 36989, j: -122063 });
+
+  const revoke = journalEntryForRevoke(coin("36989:-122063#0"), POSITION, 3);
+  assert.equal(revoke.type, "revoke");
+  assert.equal(revoke.coinId, "36989:-122063#0");
+});
@@ -0,0 +1,173 @@
+// Append-only log of everything the player did: each move, collect and
+// deposit (undone and redone ones too) and each reset, along with every
+// coin that appeared or vanished some other way: bonus coins, cache
+// refills and coins another player turned out to have first. Entries are
+// never changed or removed, so the log is an audit trail for how coins
+// ended up where they are.
+import type { Cell } from "./board.ts";
+import {
+  ActionSource,
+  cellForCacheId,
+  Coin,
+  GameEvents,
+  Location,
+} from "./gameWorld.ts";
+
+export type JournalEntryType =
+  | "move"
+  | "collect"
+  | "deposit"
+  | "bonus" // A second coin minted by a collect on a bonus cell
+  | "refill" // A coin minted into a cache by a refill
+  | "revoke" // A held coin given up to another player who had it first
+  | "reset";
+
+export interface JournalEntry {
+  id: string; // Unique across tabs, since several may log the same game
+  type: JournalEntryType;
+  source: ActionSource;
+  coinId?: string;
+  cacheId?: string;
+  cell?: Cell; // The cache's cell for collects and deposits
+  position: Location;
+  timestamp: number;
+}
+
+export interface JournalFilter {
+  type?: JournalEntryType;
+  cacheId?: string;
+  coinId?: string;
+}
+
+// Entry ids are this tab's id plus a counter
+const TAB_ID = Math.floor(Math.random() * 1e9).toString(36);
+let entryCount = 0;
+
+function nextEntryId(): string {
+  return `${TAB_ID}-${(entryCount++).toString(36)}`;
+}
+
+// The action, then the bonus coin a bonus cell collect minted with it
+export function journalEntriesForAction(
+  { action, source, position, timestamp }: GameEvents["action"],
+): JournalEntry[] {
+  const entry: JournalEntry = {
+    id: nextEntryId(),
+    type: action.type,
+    source,
+    position: { lat: position.lat, lng: position.lng },
+    timestamp,
+  };
+  if (action.type === "move") {
+    return [entry];
+  }
+
+  entry.coinId = action.coinId;
+  entry.cacheId = action.cacheId;
+  entry.cell = cellForCacheId(action.cacheId);
+  if (action.type !== "collect" || !action.bonusCoinId) {
+    return [entry];
+  }
+  return [entry, {
+    ...entry,
+    id: nextEntryId(),
+    type: "bonus",
+    coinId: action.bonusCoinId,
+  }];
+}
+
+// One entry for each coin a refill minted into a cache
+export function journalEntriesForRefill(
+  { cacheId, coins }: GameEvents["cache-refilled"],
+  position: Location,
+  timestamp = Date.now(),
+): JournalEntry[] {
+  return coins.map((coin) => ({
+    id: nextEntryId(),
+    type: "refill",
+    source: "player",
+    coinId: coin.id,
+    cacheId,
+    cell: cellForCacheId(cacheId),
+    position: { lat: position.lat, lng: position.lng },
+    timestamp,
+  }));
+}
+
+export function journalEntryForRevoke(
+  coin: Coin,
+  position: Location,
+  timestamp = Date.now(),
+): JournalEntry {
+  return {
+    id: nextEntryId(),
+    type: "revoke",
+    source: "player",
+    coinId: coin.id,
+    position: { lat: position.lat, lng: position.lng },
+    timestamp,
+  };
+}
+
+export function journalEntryForReset(
+  position: Location,
+  timestamp = Date.now(),
+): JournalEntry {
+  return {
+    id: nextEntryId(),
+    type: "reset",
+    source: "player",
+    position: { lat: position.lat, lng: position.lng },
+    timestamp,
+  };
+}
+
+// Cache and coin ids match on any part, so "36989," finds a row of caches
+export function filterJournal(
+  entries: readonly JournalEntry[],
+  filter: JournalFilter,
+): JournalEntry[] {
+  return entries.filter((entry) =>
+    (!filter.type || entry.type === filter.type) &&
+    (!filter.cacheId || (entry.cacheId ?? "").includes(filter.cacheId)) &&
+    (!filter.coinId || (entry.coinId ?? "").includes(filter.coinId))
+  );
+}
+
+const CSV_COLUMNS = [
+  "time",
+  "type",
+  "source",
+  "coinId",
+  "cacheId",
+  "cellI",
+  "cellJ",
+  "lat",
+  "lng",
+];
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function journalToCSV(entries: readonly JournalEntry[]): string {
+  const rows = entries.map((entry) =>
+    [
+      new Date(entry.timestamp).toISOString(),
+      entry.type,
+      entry.source,
+      entry.coinId,
+      entry.cacheId,
+      entry.cell?.i,
+      entry.cell?.j,
+      entry.position.lat,
+      entry.position.lng,
+    ].map(csvField).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows, ""].join("\n");
+}
+
+export function journalToJSON(entries: readonly JournalEntry[]): string {
+  return JSON.stringify(entries, null, 2);
+}
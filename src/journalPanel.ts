@@ -0,0 +1,144 @@
+// Viewer for the journal: newest entries first, filtered by type, cache or
+// coin, with the filtered entries exportable as CSV or JSON.
+import { filterJournal, JournalEntry, JournalEntryType } from "./journal.ts";
+
+export type JournalExportFormat = "csv" | "json";
+
+export interface JournalPanelOptions {
+  maxRows: number; // Older matches are counted but not drawn
+  onExport: (format: JournalExportFormat, entries: JournalEntry[]) => void;
+}
+
+const TYPE_LABELS: { [type in JournalEntryType]: string } = {
+  move: "Move",
+  collect: "Collect",
+  deposit: "Deposit",
+  bonus: "Bonus coin",
+  refill: "Refill",
+  revoke: "Revoked",
+  reset: "Reset",
+};
+
+export class JournalPanel {
+  private readonly container: HTMLElement;
+  private readonly options: JournalPanelOptions;
+  private readonly typeSelect: HTMLSelectElement;
+  private readonly cacheInput: HTMLInputElement;
+  private readonly coinInput: HTMLInputElement;
+  private readonly summary: HTMLElement;
+  private readonly rows: HTMLElement;
+  private entries: JournalEntry[] = [];
+
+  constructor(container: HTMLElement, options: JournalPanelOptions) {
+    this.container = container;
+    this.options = options;
+
+    const controls = document.createElement("div");
+    controls.className = "journal-controls";
+
+    this.typeSelect = document.createElement("select");
+    this.typeSelect.title = "action type";
+    this.typeSelect.appendChild(new Option("All actions", ""));
+    for (const type in TYPE_LABELS) {
+      this.typeSelect.appendChild(
+        new Option(TYPE_LABELS[type as JournalEntryType], type),
+      );
+    }
+    this.cacheInput = this.filterInput("cache i,j");
+    this.coinInput = this.filterInput("coin i:j#serial");
+    controls.append(this.typeSelect, this.cacheInput, this.coinInput);
+    [this.typeSelect, this.cacheInput, this.coinInput].forEach((control) =>
+      control.addEventListener("input", () => this.render())
+    );
+
+    (["csv", "json"] as JournalExportFormat[]).forEach((format) => {
+      const button = document.createElement("button");
+      button.textContent = `Export ${format.toUpperCase()}`;
+      button.addEventListener(
+        "click",
+        () => this.options.onExport(format, this.filtered()),
+      );
+      controls.appendChild(button);
+    });
+
+    this.summary = document.createElement("p");
+    this.summary.className = "journal-summary";
+
+    const table = document.createElement("table");
+    table.className = "journal-table";
+    const head = table.createTHead().insertRow();
+    ["Time", "Action", "Coin", "Cache", "Position"].forEach((label) => {
+      const cell = document.createElement("th");
+      cell.textContent = label;
+      head.appendChild(cell);
+    });
+    this.rows = table.createTBody();
+
+    container.replaceChildren(controls, this.summary, table);
+  }
+
+  isOpen(): boolean {
+    return !this.container.hidden;
+  }
+
+  toggle() {
+    this.container.hidden = !this.container.hidden;
+    this.render();
+  }
+
+  setEntries(entries: JournalEntry[]) {
+    this.entries = entries;
+    this.render();
+  }
+
+  append(entry: JournalEntry) {
+    this.entries.push(entry);
+    this.render();
+  }
+
+  private filterInput(placeholder: string): HTMLInputElement {
+    const input = document.createElement("input");
+    input.type = "search";
+    input.placeholder = placeholder;
+    input.title = `filter by ${placeholder}`;
+    return input;
+  }
+
+  private filtered(): JournalEntry[] {
+    return filterJournal(this.entries, {
+      type: (this.typeSelect.value || undefined) as JournalEntryType,
+      cacheId: this.cacheInput.value.trim(),
+      coinId: this.coinInput.value.trim(),
+    });
+  }
+
+  private render() {
+    if (!this.isOpen()) {
+      return; // Drawn when next opened
+    }
+
+    const matches = this.filtered();
+    const shown = matches.slice(-this.options.maxRows).reverse();
+    this.summary.textContent = matches.length > shown.length
+      ? `${matches.length} entries, newest ${shown.length} shown`
+      : `${matches.length} entries`;
+
+    this.rows.replaceChildren(...shown.map((entry) => {
+      const row = document.createElement("tr");
+      row.className = `journal-${entry.type}`;
+      [
+        new Date(entry.timestamp).toLocaleString(),
+        entry.source === "player"
+          ? TYPE_LABELS[entry.type]
+          : `${TYPE_LABELS[entry.type]} (${entry.source})`,
+        entry.coinId ?? "",
+        entry.cacheId ?? "",
+        `${entry.position.lat.toFixed(5)}, ${entry.position.lng.toFixed(5)}`,
+      ].forEach((text) => {
+        const cell = row.insertCell();
+        cell.textContent = text;
+      });
+      return row;
+    }));
+  }
+}
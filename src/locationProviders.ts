@@ -0,0 +1,335 @@
+// Every way the player can move sits behind LocationProvider.
+// A provider reports absolute positions to a single sink; main.ts points
+// every provider at the same pipeline, so a move is a move no matter
+// whether it came from a button, the keyboard, the GPS or a replay.
+import {
+  Direction,
+  distanceInMeters,
+  Location,
+  stepFrom,
+} from "./gameWorld.ts";
+
+export type LocationSink = (location: Location) => void;
+
+export interface LocationProvider {
+  readonly name: string;
+  start(onLocation: LocationSink): void;
+  stop(): void;
+}
+
+// Shared by providers that step relative to wherever the player is now
+interface StepOptions {
+  getPosition: () => Location;
+  moveDistance: number;
+}
+
+// The on-screen arrow buttons
+export class ButtonLocationProvider implements LocationProvider {
+  readonly name = "buttons";
+  private readonly buttons: Partial<{ [direction in Direction]: HTMLElement }>;
+  private readonly options: StepOptions;
+  private readonly handlers: [HTMLElement, () => void][] = [];
+
+  constructor(
+    buttons: Partial<{ [direction in Direction]: HTMLElement }>,
+    options: StepOptions,
+  ) {
+    this.buttons = buttons;
+    this.options = options;
+  }
+
+  start(onLocation: LocationSink) {
+    this.stop();
+    for (const direction in this.buttons) {
+      const button = this.buttons[direction as Direction]!;
+      const handler = () =>
+        onLocation(
+          stepFrom(
+            this.options.getPosition(),
+            direction as Direction,
+            this.options.moveDistance,
+          ),
+        );
+      button.addEventListener("click", handler);
+      this.handlers.push([button, handler]);
+    }
+  }
+
+  stop() {
+    this.handlers.forEach(([button, handler]) =>
+      button.removeEventListener("click", handler)
+    );
+    this.handlers.length = 0;
+  }
+}
+
+type CompassPoint = "north" | "south" | "east" | "west";
+
+const KEY_DIRECTIONS: { [key: string]: CompassPoint } = {
+  ArrowUp: "north",
+  ArrowDown: "south",
+  ArrowRight: "east",
+  ArrowLeft: "west",
+  w: "north",
+  s: "south",
+  d: "east",
+  a: "west",
+};
+
+// Arrow keys and WASD; holding two keys at once moves diagonally
+export class KeyboardLocationProvider implements LocationProvider {
+  readonly name = "keyboard";
+  private readonly target: EventTarget;
+  private readonly options: StepOptions;
+  private readonly held = new Set<CompassPoint>();
+  private onLocation: LocationSink | undefined;
+
+  constructor(target: EventTarget, options: StepOptions) {
+    this.target = target;
+    this.options = options;
+  }
+
+  start(onLocation: LocationSink) {
+    this.stop();
+    this.onLocation = onLocation;
+    this.target.addEventListener("keydown", this.handleKeyDown);
+    this.target.addEventListener("keyup", this.handleKeyUp);
+    globalThis.addEventListener("blur", this.handleBlur);
+  }
+
+  stop() {
+    this.onLocation = undefined;
+    this.held.clear();
+    this.target.removeEventListener("keydown", this.handleKeyDown);
+    this.target.removeEventListener("keyup", this.handleKeyUp);
+    globalThis.removeEventListener("blur", this.handleBlur);
+  }
+
+  // Combine every held key into one of the eight compass directions
+  private heldDirection(): Direction | undefined {
+    const dLat = (this.held.has("north") ? 1 : 0) -
+      (this.held.has("south") ? 1 : 0);
+    const dLng = (this.held.has("east") ? 1 : 0) -
+      (this.held.has("west") ? 1 : 0);
+    const direction = (dLat > 0 ? "north" : dLat < 0 ? "south" : "") +
+      (dLng > 0 ? "east" : dLng < 0 ? "west" : "");
+    return direction ? direction as Direction : undefined;
+  }
+
+  private readonly handleKeyDown = (event: Event) => {
+    const keyEvent = event as KeyboardEvent;
+    const target = keyEvent.target as HTMLElement | null;
+    if (
+      keyEvent.ctrlKey || keyEvent.metaKey || keyEvent.altKey ||
+      target?.closest?.("input, select, textarea")
+    ) {
+      return; // Leave shortcuts and form fields alone
+    }
+
+    const point = KEY_DIRECTIONS[keyEvent.key] ??
+      KEY_DIRECTIONS[keyEvent.key.toLowerCase()];
+    if (!point) {
+      return;
+    }
+    keyEvent.preventDefault();
+    this.held.add(point);
+
+    const direction = this.heldDirection();
+    if (direction && this.onLocation) {
+      this.onLocation(
+        stepFrom(
+          this.options.getPosition(),
+          direction,
+          this.options.moveDistance,
+        ),
+      );
+    }
+  };
+
+  private readonly handleKeyUp = (event: Event) => {
+    const key = (event as KeyboardEvent).key;
+    const point = KEY_DIRECTIONS[key] ?? KEY_DIRECTIONS[key.toLowerCase()];
+    if (point) {
+      this.held.delete(point);
+    }
+  };
+
+  private readonly handleBlur = () => {
+    this.held.clear();
+  };
+}
+
+export type GeolocationStatus =
+  | "off"
+  | "waiting" // Started, no usable fix yet
+  | "tracking"
+  | "inaccurate" // Fixes are arriving but are too coarse to use
+  | "jumped" // Last fix was an implausible leap and was ignored
+  | "denied"
+  | "unavailable"
+  | "timeout";
+
+export interface GeolocationFix {
+  location: Location;
+  accuracy: number; // Radius in metres, as reported by the device
+  timestamp: number;
+}
+
+export interface FixFilterOptions {
+  maxAccuracy: number; // Fixes with a larger accuracy radius are dropped
+  maxSpeed: number; // Metres per second; faster jumps are implausible
+  smoothing: number; // 0 follows every fix, values near 1 smooth heavily
+}
+
+// A real relocation (e.g. after a bus ride) is accepted once this many
+// fixes in a row agree with each other instead of with the old position
+const JUMP_CONFIRMATIONS = 3;
+
+export type FixVerdict =
+  | { accepted: true; location: Location }
+  | { accepted: false; reason: "inaccurate" | "jumped" };
+
+// Decides which raw GPS fixes to trust and smooths the ones it keeps
+export class FixFilter {
+  private readonly options: FixFilterOptions;
+  private lastFix: GeolocationFix | undefined;
+  private smoothed: Location | undefined;
+  private jumpFix: GeolocationFix | undefined;
+  private jumpCount = 0;
+
+  constructor(options: FixFilterOptions) {
+    this.options = options;
+  }
+
+  reset() {
+    this.lastFix = undefined;
+    this.smoothed = undefined;
+    this.jumpFix = undefined;
+    this.jumpCount = 0;
+  }
+
+  accept(fix: GeolocationFix): FixVerdict {
+    if (fix.accuracy > this.options.maxAccuracy) {
+      return { accepted: false, reason: "inaccurate" };
+    }
+
+    if (this.lastFix && !this.isPlausible(this.lastFix, fix)) {
+      // Several consistent fixes somewhere new mean the player really moved
+      if (this.jumpFix && this.isPlausible(this.jumpFix, fix)) {
+        this.jumpCount++;
+      } else {
+        this.jumpCount = 1;
+      }
+      this.jumpFix = fix;
+
+      if (this.jumpCount < JUMP_CONFIRMATIONS) {
+        return { accepted: false, reason: "jumped" };
+      }
+      this.smoothed = undefined; // Start afresh rather than glide across town
+    }
+
+    this.jumpFix = undefined;
+    this.jumpCount = 0;
+    this.lastFix = fix;
+
+    // Exponential moving average, so jitter doesn't bounce between cells
+    const previous = this.smoothed;
+    const follow = 1 - this.options.smoothing;
+    this.smoothed = previous
+      ? {
+        lat: previous.lat + (fix.location.lat - previous.lat) * follow,
+        lng: previous.lng + (fix.location.lng - previous.lng) * follow,
+      }
+      : fix.location;
+    return { accepted: true, location: this.smoothed };
+  }
+
+  private isPlausible(from: GeolocationFix, to: GeolocationFix): boolean {
+    const seconds = Math.max((to.timestamp - from.timestamp) / 1000, 1);
+    // Both fixes may be off by their accuracy radius without having moved
+    const distance = Math.max(
+      distanceInMeters(from.location, to.location) - from.accuracy -
+        to.accuracy,
+      0,
+    );
+    return distance / seconds <= this.options.maxSpeed;
+  }
+}
+
+export interface GeolocationProviderOptions extends FixFilterOptions {
+  onStatus: (status: GeolocationStatus) => void;
+  onFix?: (fix: GeolocationFix) => void; // Every raw fix, used or not
+}
+
+// The device's own location via the Geolocation API
+export class GeolocationProvider implements LocationProvider {
+  readonly name = "geolocation";
+  private readonly geolocation: Geolocation;
+  private readonly options: GeolocationProviderOptions;
+  private readonly filter: FixFilter;
+  private watchId: number | undefined;
+
+  constructor(
+    geolocation: Geolocation,
+    options: GeolocationProviderOptions,
+  ) {
+    this.geolocation = geolocation;
+    this.options = options;
+    this.filter = new FixFilter(options);
+  }
+
+  isActive(): boolean {
+    return this.watchId !== undefined;
+  }
+
+  start(onLocation: LocationSink) {
+    this.stop();
+    this.options.onStatus("waiting");
+    this.watchId = this.geolocation.watchPosition(
+      (position) => {
+        const fix: GeolocationFix = {
+          location: {
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+          },
+          accuracy: position.coords.accuracy,
+          timestamp: position.timestamp,
+        };
+        this.options.onFix?.(fix);
+
+        const verdict = this.filter.accept(fix);
+        if (verdict.accepted) {
+          this.options.onStatus("tracking");
+          onLocation(verdict.location);
+        } else {
+          this.options.onStatus(verdict.reason);
+        }
+      },
+      (error) => {
+        switch (error.code) {
+          case error.PERMISSION_DENIED:
+            // The browser will not ask again, so stop watching
+            this.stop();
+            this.options.onStatus("denied");
+            break;
+          case error.POSITION_UNAVAILABLE:
+            this.options.onStatus("unavailable");
+            break;
+          case error.TIMEOUT:
+            this.options.onStatus("timeout");
+            break;
+        }
+      },
+      { enableHighAccuracy: true, maximumAge: 0, timeout: 15000 },
+    );
+  }
+
+  stop() {
+    if (this.watchId !== undefined) {
+      this.geolocation.clearWatch(this.watchId);
+      this.watchId = undefined;
+      this.filter.reset();
+      this.options.onStatus("off");
+    }
+  }
+}
@@ -1,13 +1,28 @@
 import murmur32 from "murmur-32";
 
+let seed = "";
+
+/**
+ * Sets the world seed that namespaces every later `luck()` call, so the
+ * same situation turns out differently in another world. The empty seed
+ * gives the original world.
+ */
+export function setLuckSeed(worldSeed: string) {
+  seed = worldSeed;
+}
+
 /**
  * Deterministically generates a number between 0 and 1 for the given
- * situation. Use the result like you would for `Math.random()`.
+ * situation. Use the result like you would for `Math.random()`. The world
+ * is the one last given to `setLuckSeed` unless `worldSeed` names another.
  */
-export default function luck(situation: string): number {
+export default function luck(situation: string, worldSeed = seed): number {
   const LARGE_INTEGER = 1 << 30;
   return (
-    (new DataView(murmur32(situation)).getUint32(0) % LARGE_INTEGER) /
+    (new DataView(
+      murmur32(worldSeed ? `${worldSeed}|${situation}` : situation),
+    )
+      .getUint32(0) % LARGE_INTEGER) /
     LARGE_INTEGER
   );
 }
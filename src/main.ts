@@ -1,7 +1,88 @@
 // Import necessary modules and types
 import leaflet, { LatLng } from "leaflet";
-import luck from "./luck.ts";
-import { Board, Cell } from "./board.ts"; // Import the Board class and Cell interface
+import { Board } from "./board.ts"; // Import the Board class
+import {
+  Cache,
+  cellForCacheId,
+  Coin,
+  coinRoute,
+  GameState,
+  GameWorld,
+  Location,
+} from "./gameWorld.ts";
+import {
+  parseSave,
+  SaveEnvelope,
+  SaveFormatError,
+  serializeSave,
+} from "./saveFormat.ts";
+import {
+  decodeShareString,
+  describeImport,
+  encodeShareString,
+} from "./saveTransfer.ts";
+import { exportTrackGeoJSON, exportTrackGPX } from "./trackExport.ts";
+import { parseRoute, RouteFormatError, RouteReplay } from "./routeReplay.ts";
+import {
+  ButtonLocationProvider,
+  GeolocationFix,
+  GeolocationProvider,
+  GeolocationStatus,
+  KeyboardLocationProvider,
+} from "./locationProviders.ts";
+import {
+  Profile,
+  ProfileStore,
+  summarizeGameState,
+  summarizeWorld,
+} from "./profiles.ts";
+import { mergeBase, mergeGameStates } from "./saveMerge.ts";
+import { GameStore } from "./gameStore.ts";
+import { ModalDialog, ToastQueue } from "./notifications.ts";
+import { StatusPanel } from "./statusPanel.ts";
+import {
+  journalEntriesForAction,
+  journalEntriesForRefill,
+  JournalEntry,
+  journalEntryForReset,
+  journalEntryForRevoke,
+  journalToCSV,
+  journalToJSON,
+} from "./journal.ts";
+import { JournalExportFormat, JournalPanel } from "./journalPanel.ts";
+import {
+  cacheMarkerIcon,
+  describeCache,
+  ExplorationOverlay,
+  GridOverlay,
+} from "./mapOverlays.ts";
+import { openStorageBackend } from "./storageBackends.ts";
+import { walletValue } from "./coinRarity.ts";
+import { AchievementsPanel } from "./achievementsPanel.ts";
+import { WorldEventSchedule } from "./worldEvents.ts";
+import { setLuckSeed } from "./luck.ts";
+import {
+  DEFAULT_WORLD_SETTINGS,
+  describeWorld,
+  hasWorldParams,
+  sameWorld,
+  validateWorldSettings,
+  WorldSettings,
+  WorldSettingsError,
+  worldSettingsFromParams,
+  worldSettingsToParams,
+} from "./worldSettings.ts";
+import { SettingsPanel } from "./settingsPanel.ts";
+import { cacheOpForAction, SyncClient, SyncStatus } from "./syncClient.ts";
+import {
+  BONUS_CELL_CHANCE,
+  CacheOp,
+  EVENT_CHANCE,
+  EVENT_SLOT_LENGTH,
+  REGENERATION_PERIOD,
+  REGENERATION_RATE,
+  RemotePlayer,
+} from "./syncProtocol.ts";
 
 // Style sheets
 import "leaflet/dist/leaflet.css";
@@ -10,327 +91,334 @@ import "./style.css";
 // Fix missing marker images
 import "./leafletWorkaround.ts";
 
-// Location of our classroom
-const OAKES_CLASSROOM: LatLng = leaflet.latLng(
-  36.98949379578401,
-  -122.06277128548504,
-);
+// The seed, grid, zoom, step, start point and cache odds are world
+// settings; see worldSettings.ts for their defaults
 
-// Tunable gameplay parameters
-const GAMEPLAY_ZOOM_LEVEL = 19;
+// How many cells away from the player's cell a cache can still be used
+const INTERACTION_RADIUS = 1;
 
-// Create the map
-const map = leaflet.map(document.getElementById("map")!, {
-  center: OAKES_CLASSROOM,
-  zoom: GAMEPLAY_ZOOM_LEVEL,
-  minZoom: GAMEPLAY_ZOOM_LEVEL,
-  maxZoom: GAMEPLAY_ZOOM_LEVEL,
-  zoomControl: false,
-  scrollWheelZoom: false,
-});
+// Bonus hours are set in syncProtocol.ts, as the server hands out their coins
+const EVENT_LOOKAHEAD = 24 * 60 * 60 * 1000; // How far ahead the HUD lists events
+const EVENT_CHECK_INTERVAL = 60 * 1000; // How often to look for events starting or ending
 
-// Add tile layer
-leaflet.tileLayer("https://tile.openstreetmap.org/{z}/{x}/{y}.png", {
-  maxZoom: 19,
-  attribution:
-    '&copy; <a href="http://www.openstreetmap.org/copyright">OpenStreetMap</a>',
-}).addTo(map);
+// A fresh set of daily quests every day
+const QUEST_DAY_LENGTH = 24 * 60 * 60 * 1000;
+const DAILY_QUEST_COUNT = 3;
 
-// Initialize the Board
-const tileWidth = 0.001;
-const tileVisibilityRadius = 3;
-const board = new Board(tileWidth, tileVisibilityRadius);
+// How many actions the undo button can take back
+const UNDO_LIMIT = 100;
 
-// State to track player's coins
-let playerCoins = 0;
+// Old stretches of the route are thinned to save space; the most recent
+// points are kept as walked so undo can still take them back
+const TRACK_RAW_POINTS = 500; // Must stay above UNDO_LIMIT
+const TRACK_COMPACT_BATCH = 500; // Thin out this many old points at a time
+const TRACK_SIMPLIFY_TOLERANCE = 2; // Metres the thinned route may stray
 
-// Define structures for Coin and Cache
-interface Coin {
-  id: string;
-  originatingCacheId: string;
-}
+// How many of the newest journal entries the viewer draws
+const JOURNAL_MAX_ROWS = 200;
 
-interface Cache {
-  cell: Cell;
-  coins: Coin[];
-  id: string;
-}
+// How long to wait before trying a lost multiplayer server again
+const SYNC_RECONNECT_DELAY = 5000;
 
-interface CacheData {
-  id: string;
-  coins: Coin[];
-  cell: Cell; // Assuming Cell is accurately imported from './board.ts'
-}
+// Where this browser keeps the id it goes by on multiplayer servers
+const SYNC_PLAYER_ID_KEY = "syncPlayerId";
 
-interface GameState {
-  playerCoins: number;
-  playerPosition: Location;
-  cacheLocations: CacheData[];
-  movementHistory: Location[];
-}
+// Notification parameters
+const TOAST_DURATION = 4000; // Milliseconds before a message fades away
+const TOAST_MAX_VISIBLE = 4; // More wait their turn
 
-interface Location {
-  lat: number;
-  lng: number;
-}
+// Movement parameters
+const WALKING_SPEED = 1.4; // Default route replay speed in metres per second
+
+// Geolocation filtering parameters
+const GEOLOCATION_MAX_ACCURACY = 50; // Ignore fixes less precise than this, in metres
+const GEOLOCATION_MAX_SPEED = 40; // Faster than this (m/s) is treated as a glitch
+const GEOLOCATION_SMOOTHING = 0.5; // 0 = raw fixes, closer to 1 = steadier marker
+
+// Each profile keeps its own save slot and settings in local storage
+const profiles = new ProfileStore(localStorage, {
+  replaySpeed: WALKING_SPEED,
+  resumeGeolocation: false,
+  showGrid: false,
+  showExploration: true,
+  world: DEFAULT_WORLD_SETTINGS,
+  syncServer: "",
+});
 
-// Cache locations structure
-const cacheLocations: Cache[] = [];
+// Messages and questions are shown in the page rather than with alert()
+const toasts = new ToastQueue(document.getElementById("toasts")!, {
+  duration: TOAST_DURATION,
+  maxVisible: TOAST_MAX_VISIBLE,
+});
+const dialog = new ModalDialog(
+  document.getElementById("dialog") as HTMLDialogElement,
+);
 
-// Generate cache locations using Board
-function initializeCacheLocations(
-  center: LatLng,
-  numCaches: number,
-  radius: number,
-) {
-  for (let i = 0; i < numCaches; i++) {
-    const cacheId = `cache-${i}`;
-
-    const angle = 2 * Math.PI * luck(`${cacheId}-angle`);
-    const distance = radius * luck(`${cacheId}-distance`);
-    const offsetLat = (distance * Math.cos(angle)) / 111139;
-    const offsetLng = (distance * Math.sin(angle)) /
-      (111139 * Math.cos(center.lat * Math.PI / 180));
-
-    const cacheLocation = leaflet.latLng(
-      center.lat + offsetLat,
-      center.lng + offsetLng,
-    );
-    const cell = board.getCellForPoint(cacheLocation);
-
-    const numCoins = generateNumberOfCoins(cacheId);
-    const coins: Coin[] = [];
-    for (let j = 0; j < numCoins; j++) {
-      const coinId = `${cell.i}:${cell.j}#${j}`; // Compact coin ID
-      coins.push({
-        id: coinId,
-        originatingCacheId: cacheId,
-      });
+// A profile's world, or the original one if what it stored is unusable
+function profileWorld(profile: Profile): WorldSettings {
+  try {
+    return validateWorldSettings(profile.settings.world);
+  } catch (error) {
+    if (!(error instanceof WorldSettingsError)) {
+      throw error;
     }
-
-    cacheLocations.push({ cell, coins, id: cacheId });
+    return DEFAULT_WORLD_SETTINGS;
   }
 }
 
-const CACHE_VISIBILITY_RADIUS = 0.005; // Adjust this based on preferred vicinity
-
-function isCacheVisible(
-  cacheLocation: LatLng,
-  playerPosition: LatLng,
-): boolean {
-  const distanceLat = (cacheLocation.lat - playerPosition.lat) * 111139;
-  const distanceLng = (cacheLocation.lng - playerPosition.lng) *
-    (111139 * Math.cos(playerPosition.lat * Math.PI / 180));
-  const distance = Math.sqrt(distanceLat ** 2 + distanceLng ** 2); // Approximate distance in meters
-  return distance <= CACHE_VISIBILITY_RADIUS;
-}
-
-interface Momento<T> {
-  toMomento(): T;
-  fromMomento(momento: T): void;
-}
-
-class Geocache implements Momento<string> {
-  i: number;
-  j: number;
-  numCoins: number;
-
-  constructor(i: number, j: number, numCoins: number) {
-    this.i = i;
-    this.j = j;
-    this.numCoins = numCoins;
+// The world a link names is played in a profile of its own, reusing one
+// already in that world; without one, the active profile's world is played
+function resolveWorldSettings(): WorldSettings {
+  const params = new URLSearchParams(location.search);
+  const activeWorld = profileWorld(profiles.getActive());
+  if (!hasWorldParams(params)) {
+    return activeWorld;
   }
 
-  toMomento() {
-    return `${this.i},${this.j},${this.numCoins}`;
+  let linkedWorld: WorldSettings;
+  try {
+    linkedWorld = worldSettingsFromParams(params);
+  } catch (error) {
+    if (!(error instanceof WorldSettingsError)) {
+      throw error;
+    }
+    toasts.show(`That world link could not be used: ${error.message}`, "error");
+    return activeWorld;
   }
-
-  fromMomento(momento: string) {
-    const [i, j, numCoins] = momento.split(",").map(Number);
-    this.i = i;
-    this.j = j;
-    this.numCoins = numCoins;
+  if (sameWorld(linkedWorld, activeWorld)) {
+    return activeWorld;
   }
-}
 
-// Dictionary to store mementos for each cache location
-const geocacheMementos: { [key: string]: string } = {};
+  const profile =
+    profiles.list().find((profile) =>
+      sameWorld(profileWorld(profile), linkedWorld)
+    ) ?? profiles.create(worldProfileName(linkedWorld));
+  profiles.updateSettings(profile.id, { world: linkedWorld });
+  profiles.setActive(profile.id);
+  toasts.show(`Playing ${describeWorld(linkedWorld)} as "${profile.name}".`);
+  return linkedWorld;
+}
 
-function syncCacheWithMementos() {
-  cacheLocations.forEach((cache) => {
-    const key = `${cache.cell.i},${cache.cell.j}`;
-    geocacheMementos[key] = new Geocache(
-      cache.cell.i,
-      cache.cell.j,
-      cache.coins.length,
-    ).toMomento();
-  });
+function worldProfileName(settings: WorldSettings): string {
+  return settings.seed
+    ? `World "${settings.seed}"`
+    : `World ${profiles.list().length + 1}`;
+}
 
-  // Clear the cache locations array for regeneration
-  cacheLocations.length = 0;
+// This page's address with the world in its query, ready to share
+function worldLink(settings: WorldSettings): string {
+  const url = new URL(location.href);
+  url.search = worldSettingsToParams(settings).toString();
+  return url.href;
 }
 
-function updateMapLayers() {
-  map.eachLayer((layer: leaflet.Layer) => {
-    if (layer instanceof leaflet.Marker && layer !== playerMarker) {
-      map.removeLayer(layer); // Remove old cache markers
-    }
+// Luck, the board and the map are all set up for one world, so another
+// world is opened by reloading into its link once pending saves are done
+function openWorld(settings: WorldSettings) {
+  queueStorage(() => {
+    location.assign(worldLink(settings));
+    return Promise.resolve();
   });
 }
 
-function generateCacheLocations(playerPosition: LatLng) {
-  for (let i = 0; i < 5; i++) {
-    const cacheId = `cache-${i}`;
-    const angle = 2 * Math.PI * luck(`${cacheId}-angle`);
-    const distance = CACHE_VISIBILITY_RADIUS * luck(`${cacheId}-distance`);
-    const offsetLat = (distance * Math.cos(angle)) / 111139;
-    const offsetLng = (distance * Math.sin(angle)) /
-      (111139 * Math.cos(playerPosition.lat * Math.PI / 180));
+const worldSettings = resolveWorldSettings();
+setLuckSeed(worldSettings.seed);
+history.replaceState(null, "", worldLink(worldSettings));
 
-    const cacheLocation = leaflet.latLng(
-      playerPosition.lat + offsetLat,
-      playerPosition.lng + offsetLng,
-    );
+// Create the map
+const map = leaflet.map(document.getElementById("map")!, {
+  center: toLatLng(worldSettings.start),
+  zoom: worldSettings.zoom,
+  minZoom: worldSettings.zoom,
+  maxZoom: worldSettings.zoom,
+  zoomControl: false,
+  scrollWheelZoom: false,
+});
 
-    if (isCacheVisible(cacheLocation, playerPosition)) {
-      const cell = board.getCellForPoint(cacheLocation);
-      const key = `${cell.i},${cell.j}`;
-      let numCoins = 0;
-
-      if (geocacheMementos[key]) {
-        // Restore state from the memento
-        const geocache = new Geocache(cell.i, cell.j, 0);
-        geocache.fromMomento(geocacheMementos[key]);
-        numCoins = geocache.numCoins;
-      } else {
-        numCoins = generateNumberOfCoins(cacheId);
-      }
+// Add tile layer
+leaflet.tileLayer("https://tile.openstreetmap.org/{z}/{x}/{y}.png", {
+  maxZoom: 19,
+  attribution:
+    '&copy; <a href="http://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+}).addTo(map);
 
-      const coins: Coin[] = [];
-      for (let j = 0; j < numCoins; j++) {
-        const coinId = `${cell.i}:${cell.j}#${j}`;
-        coins.push({
-          id: coinId,
-          originatingCacheId: cacheId,
-        });
-      }
+// Initialize the Board
+const board = new Board(
+  worldSettings.tileWidth,
+  worldSettings.visibilityRadius,
+);
 
-      // Update cache locations and set popup
-      cacheLocations.push({ cell, coins, id: cacheId });
-      updatePopup(cacheLocations.length - 1);
-    }
-  }
-}
+// Every player gets the same event schedule
+const worldEvents = new WorldEventSchedule({
+  slotLength: EVENT_SLOT_LENGTH,
+  eventChance: EVENT_CHANCE,
+  bonusCellChance: BONUS_CELL_CHANCE,
+});
+
+// The game rules live in GameWorld; this file only draws them
+const world = new GameWorld({
+  board,
+  worldSettings,
+  interactionRadius: INTERACTION_RADIUS,
+  undoLimit: UNDO_LIMIT,
+  regenerationPeriod: REGENERATION_PERIOD,
+  regenerationRate: REGENERATION_RATE,
+  events: worldEvents,
+  quests: { dayLength: QUEST_DAY_LENGTH, dailyQuestCount: DAILY_QUEST_COUNT },
+});
 
-function updateCacheLocations() {
-  // Step 1: Synchronize cache state with mementos
-  syncCacheWithMementos();
+// Display initial location on the map
+const playerMarker = leaflet.marker(toLatLng(worldSettings.start)).addTo(map);
+playerMarker.bindTooltip("Player's starting location").openTooltip();
 
-  // Step 2: Update layers on the map
-  updateMapLayers();
+let movementPolyline: leaflet.Polyline | undefined; // The polyline to display the player's path on the map
+let coinRoutePolyline: leaflet.Polyline | undefined; // The route of the coin last picked in a popup
 
-  // Step 3: Generate caches based on player position
-  generateCacheLocations(playerLocation);
+function toLatLng(location: Location): LatLng {
+  return leaflet.latLng(location.lat, location.lng);
 }
 
-function generateNumberOfCoins(cacheId: string): number {
-  const baseKey = `${cacheId},coins`;
-  return Math.floor((luck(baseKey) * 10) + 1);
+function removeCacheMarkers() {
+  map.eachLayer((layer: leaflet.Layer) => {
+    if (layer instanceof leaflet.Marker && layer !== playerMarker) {
+      map.removeLayer(layer); // Remove old cache markers
+    }
+  });
 }
 
-// Display initial location on the map
-const playerMarker = leaflet.marker(OAKES_CLASSROOM).addTo(map);
-playerMarker.bindTooltip("Player's starting location").openTooltip();
+// An element holding plain text; ids in saves and share strings come from
+// outside, so they are never parsed as HTML
+function textElement<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  text: string,
+  className = "",
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  element.className = className;
+  element.textContent = text;
+  return element;
+}
 
-// Handle collecting coins
-function handleCollect(index: number) {
-  const cache = cacheLocations[index];
+// Collect and deposit controls, only offered while the cache is in reach
+function generateCacheControls(cache: Cache): HTMLElement[] {
+  if (!world.isCacheInReach(cache)) {
+    return [
+      textElement(
+        "div",
+        "View only: walk closer to use this cache",
+        "cache-out-of-reach",
+      ),
+    ];
+  }
 
-  if (cache.coins.length > 0) {
-    playerCoins++;
-    const collectedCoin = cache.coins.pop(); // Remove coin from the cache
-    alert(
-      `Collected a coin with ID ${collectedCoin?.id}. Player now has ${playerCoins} coins.`,
-    );
-    updatePopup(index);
-  } else {
-    alert("No coins left to collect in this cache!");
-  }
-}
-
-// Handle depositing coins
-function handleDeposit(index: number) {
-  if (playerCoins > 0) {
-    const cache = cacheLocations[index];
-    const depositedCoin: Coin = {
-      id: `cache-${index}-coin-${cache.coins.length}`,
-      originatingCacheId: cache.id,
-    };
-    playerCoins--;
-    cache.coins.push(depositedCoin); // Increase coins in the cache
-    alert(
-      `Deposited a coin. Player now has ${playerCoins} coins. Cache now has ${cache.coins.length} coins.`,
+  const heldCoins = world.getPlayerCoins();
+  const depositSelect = document.createElement("select");
+  depositSelect.className = "deposit-select";
+  depositSelect.disabled = heldCoins.length === 0;
+  heldCoins.slice().reverse().forEach((coin) => {
+    const option = textElement(
+      "option",
+      `${coin.id} (${coin.rarity}, ${coin.denomination})`,
+      `coin-${coin.rarity}`,
     );
-    updatePopup(index);
-  } else {
-    alert("No coins available to deposit!");
-  }
+    option.value = coin.id;
+    depositSelect.appendChild(option);
+  });
+
+  return [
+    textElement("button", "Collect", "collect-button"),
+    depositSelect,
+    textElement("button", "Deposit", "deposit-button"),
+  ];
 }
 
-function generatePopupContent(cache: Cache, index: number): HTMLElement {
+function generatePopupContent(cache: Cache): HTMLElement {
   const popupContent = document.createElement("div");
 
-  popupContent.innerHTML = `
-    <div>Cache with ${cache.coins.length} coins</div>
-    ${
-      cache.coins.map(
-        (coin) =>
-          `<div class="coin-id" data-cache-id="${coin.originatingCacheId}">
-            ${coin.id}
-          </div>`,
-      ).join("")
-    }
-    <button id="collect-btn-${index}" class="collect-button">Collect</button>
-    <button id="deposit-btn-${index}" class="deposit-button">Deposit</button>
-  `;
+  popupContent.appendChild(
+    textElement(
+      "div",
+      `Cache with ${cache.coins.length} coins worth ${
+        walletValue(cache.coins)
+      }`,
+    ),
+  );
+  const event = worldEvents.eventAt(Date.now());
+  if (event && world.isBonusCache(cache)) {
+    popupContent.appendChild(
+      textElement(
+        "div",
+        `Bonus cell: collects pay double until ${
+          new Date(event.end).toLocaleTimeString()
+        }`,
+        "cache-bonus-note",
+      ),
+    );
+  }
+  popupContent.appendChild(
+    textElement(
+      "div",
+      `${Math.round(world.distanceToCache(cache))} m away`,
+      "cache-distance",
+    ),
+  );
+  cache.coins.forEach((coin) => {
+    const coinElement = textElement(
+      "div",
+      `${coin.id} `,
+      `coin-id coin-${coin.rarity}`,
+    );
+    coinElement.dataset.coinId = coin.id;
+    coinElement.appendChild(
+      textElement("span", `${coin.rarity}, ${coin.denomination}`, "coin-grade"),
+    );
+    popupContent.appendChild(coinElement);
+  });
+  popupContent.append(...generateCacheControls(cache));
 
   return popupContent;
 }
 
 function updateCacheMarker(cache: Cache): leaflet.Marker {
-  const cacheBounds = board.getCellBounds(cache.cell);
+  const center = toLatLng(board.getCellCenter(cache.cell));
 
   // Remove any existing markers at this cache location
   map.eachLayer((layer: leaflet.Layer) => {
-    if (layer instanceof leaflet.Marker && cacheBounds.getCenter().equals(layer.getLatLng())) {
+    if (
+      layer instanceof leaflet.Marker &&
+      layer !== playerMarker &&
+      center.equals(layer.getLatLng())
+    ) {
       map.removeLayer(layer);
     }
   });
 
-  // Add a new marker for this cache
-  const marker = leaflet.marker(cacheBounds.getCenter()).addTo(map);
+  // Add a new marker for this cache, badged with its coin count
+  const marker = leaflet.marker(center, {
+    icon: cacheMarkerIcon(cache, world.isBonusCache(cache)),
+    title: describeCache(cache),
+  }).addTo(map);
   return marker;
 }
 
-function bindPopupEvents(content: HTMLElement, index: number): void {
+function bindPopupEvents(content: HTMLElement, cache: Cache): void {
   // Bind the Collect button
   const collectButton = content.querySelector(
-    `#collect-btn-${index}`,
+    ".collect-button",
   ) as HTMLElement;
   collectButton?.addEventListener("click", () => {
-    handleCollect(index);
-    updatePopup(index);
-    saveGameState();
+    world.collect(cache.id);
   });
 
-  // Bind the Deposit button
+  // Bind the Deposit button to whichever held coin is picked
+  const depositSelect = content.querySelector(
+    ".deposit-select",
+  ) as HTMLSelectElement;
   const depositButton = content.querySelector(
-    `#deposit-btn-${index}`,
+    ".deposit-button",
   ) as HTMLElement;
   depositButton?.addEventListener("click", () => {
-    handleDeposit(index);
-    updatePopup(index);
-    saveGameState();
+    world.deposit(cache.id, depositSelect?.value || undefined);
   });
 
   // Bind events for coin ID clicks
@@ -339,28 +427,29 @@ function bindPopupEvents(content: HTMLElement, index: number): void {
   ) as NodeListOf<HTMLElement>;
   coinIdentifiers.forEach((el) => {
     el.addEventListener("click", () => {
-      const cacheId = el.getAttribute("data-cache-id")!;
-      centerMapOnCache(cacheId);
-      saveGameState();
+      const coinId = el.getAttribute("data-coin-id")!;
+      const coin = cache.coins.find((coin) => coin.id === coinId);
+      if (coin) {
+        showCoinRoute(coin);
+      }
     });
   });
 }
 
 // Update the popup and rebind it to the marker
-function updatePopup(index: number): void {
-  const cache = cacheLocations[index];
-
+function updatePopup(cache: Cache): void {
   // Step 1: Update the marker on the map for this cache
   const marker = updateCacheMarker(cache);
 
-  // Step 2: Create popup content
-  const popupContent = generatePopupContent(cache, index);
-
-  // Step 3: Attach the popup content to the marker
-  marker.bindPopup(popupContent);
+  // Step 2: Build the popup content each time it opens, so the deposit
+  // picker always lists what the player holds right now
+  marker.bindPopup(() => {
+    const popupContent = generatePopupContent(cache);
 
-  // Step 4: Bind events to popup buttons and elements
-  bindPopupEvents(popupContent, index);
+    // Step 3: Bind events to popup buttons and elements
+    bindPopupEvents(popupContent, cache);
+    return popupContent;
+  });
 
   // Open the popup when the marker is clicked
   marker.on("click", () => {
@@ -368,275 +457,1220 @@ function updatePopup(index: number): void {
   });
 }
 
-// Initialize caches
-initializeCacheLocations(OAKES_CLASSROOM, 5, 100);
+function updateMovementPolyline(movementHistory: readonly Location[]) {
+  // Remove the previous polyline from the map, if it exists
+  if (movementPolyline) {
+    map.removeLayer(movementPolyline);
+    movementPolyline = undefined;
+  }
 
-// Set up tooltips for all caches
-cacheLocations.forEach((_, index) => {
-  updatePopup(index);
-});
+  // Create a new polyline with the updated movement history
+  if (movementHistory.length > 0) {
+    movementPolyline = leaflet.polyline(movementHistory.map(toLatLng), {
+      color: "blue",
+    }).addTo(map);
+  }
+}
 
-// State to track player's current location
-let playerLocation: LatLng = OAKES_CLASSROOM;
+function generateItineraryContent(coin: Coin): HTMLElement {
+  const itinerary = document.createElement("div");
 
-// Movement parameters
-const MOVE_DISTANCE = 0.0001; // You can adjust this value to control the movement distance
-
-function updatePlayerPosition(direction: "north" | "south" | "east" | "west") {
-  switch (direction) {
-    case "north":
-      playerLocation = leaflet.latLng(
-        playerLocation.lat + MOVE_DISTANCE,
-        playerLocation.lng,
-      );
-      break;
-    case "south":
-      playerLocation = leaflet.latLng(
-        playerLocation.lat - MOVE_DISTANCE,
-        playerLocation.lng,
-      );
-      break;
-    case "east":
-      playerLocation = leaflet.latLng(
-        playerLocation.lat,
-        playerLocation.lng + MOVE_DISTANCE,
-      );
-      break;
-    case "west":
-      playerLocation = leaflet.latLng(
-        playerLocation.lat,
-        playerLocation.lng - MOVE_DISTANCE,
-      );
-      break;
+  const heading = textElement("div", `Coin ${coin.id} `);
+  heading.appendChild(
+    textElement(
+      "span",
+      `${coin.rarity}, ${coin.denomination}`,
+      `coin-grade coin-${coin.rarity}`,
+    ),
+  );
+  itinerary.appendChild(heading);
+
+  const stops = document.createElement("ol");
+  stops.className = "coin-itinerary";
+  stops.appendChild(
+    textElement("li", `Minted at cache ${coin.originatingCacheId}`),
+  );
+  coin.trail.forEach((stop) => {
+    const item = textElement(
+      "li",
+      `${
+        stop.action === "collected" ? "Collected from" : "Deposited into"
+      } cache ${stop.cacheId} `,
+    );
+    item.appendChild(
+      textElement(
+        "span",
+        new Date(stop.timestamp).toLocaleString(),
+        "coin-itinerary-time",
+      ),
+    );
+    stops.appendChild(item);
+  });
+  itinerary.appendChild(stops);
+
+  return itinerary;
+}
+
+function clearCoinRoute() {
+  if (coinRoutePolyline) {
+    map.removeLayer(coinRoutePolyline);
+    coinRoutePolyline = undefined;
   }
 }
 
-function updatePlayerMarker() {
-  playerMarker.setLatLng(playerLocation);
+// Draw the path a coin has travelled and list the caches it passed through
+function showCoinRoute(coin: Coin) {
+  clearCoinRoute();
+
+  const points = coinRoute(coin).map((cell) =>
+    toLatLng(board.getCellCenter(cell))
+  );
+  if (points.length === 0) {
+    return;
+  }
+
+  coinRoutePolyline = leaflet.polyline(points, {
+    color: "orange",
+    dashArray: "4 8",
+  }).addTo(map);
+  coinRoutePolyline.bindPopup(generateItineraryContent(coin));
+
+  map.fitBounds(coinRoutePolyline.getBounds());
+  coinRoutePolyline.openPopup(points[points.length - 1]);
 }
 
-function updateCachesForPlayer() {
-  updateCacheLocations();
+// Recenter on the cache a coin was first found in
+function showCoinOrigin(coin: Coin) {
+  const origin = cellForCacheId(coin.originatingCacheId);
+  if (origin) {
+    map.setView(toLatLng(board.getCellCenter(origin)), worldSettings.zoom);
+  }
 }
 
-// Movement function
-function movePlayer(direction: "north" | "south" | "east" | "west") {
-  // Step 1: Update the player's position
-  updatePlayerPosition(direction);
+// Live status and inventory above the map
+const statusPanel = new StatusPanel(document.getElementById("statusPanel")!, {
+  onCoinSelected: showCoinOrigin,
+});
+statusPanel.setCoins(world.getPlayerCoins());
+statusPanel.setCell(board.getCellForPoint(world.getPlayerPosition()));
+
+// Keep the map in sync with the game world
+world.on("player-moved", ({ position }) => {
+  playerMarker.setLatLng(toLatLng(position));
+  statusPanel.setCell(board.getCellForPoint(position));
+});
 
-  // Step 2: Update the player marker on the map
-  updatePlayerMarker();
+world.on("inventory-changed", ({ playerCoins }) => {
+  statusPanel.setCoins(playerCoins);
+});
 
-  // Step 3: Update cache visibility and map layers for the new position
-  updateCachesForPlayer();
+// Optional grid of the cells around the player, tinted by cache state
+const gridOverlay = new GridOverlay(map, board);
 
-  // Step 4: Track movement history and update the polyline
-  updateMovementHistory(playerLocation);
+world.on("caches-refreshed", ({ caches }) => {
+  removeCacheMarkers();
+  caches.forEach((cache) => updatePopup(cache));
+  gridOverlay.update(world.getPlayerPosition(), caches);
+});
 
-  // Step 5: Persist the game state
-  saveGameState();
+world.on("cache-changed", ({ cache }) => {
+  updatePopup(cache);
+  gridOverlay.update(world.getPlayerPosition(), world.getCaches());
+});
+
+world.on("history-changed", ({ movementHistory }) => {
+  updateMovementPolyline(movementHistory);
+  statusPanel.setDistance(world.getMetersWalked());
+});
 
+// Redraw bonus cells and the HUD schedule as events start and end
+let activeEventSlot: number | undefined;
 
-  // Update the player marker's position
-  playerMarker.setLatLng(playerLocation);
-  updateCacheLocations();
+function refreshWorldEvents() {
+  const now = Date.now();
+  const event = worldEvents.eventAt(now);
+  statusPanel.setEvents(worldEvents.between(now, now + EVENT_LOOKAHEAD), now);
+  if (event?.slot === activeEventSlot) {
+    return;
+  }
 
-  // Update the movement history and draw the polyline
-  updateMovementHistory(playerLocation);
-  saveGameState(); // Save state after moving
+  activeEventSlot = event?.slot;
+  world.getCaches().forEach((cache) => updatePopup(cache));
+  if (event) {
+    toasts.show(
+      `Bonus hour! Glowing caches pay double until ${
+        new Date(event.end).toLocaleTimeString()
+      }.`,
+    );
+  }
 }
 
-updateCacheLocations();
+refreshWorldEvents();
+setInterval(refreshWorldEvents, EVENT_CHECK_INTERVAL);
 
-// Attach event listeners
-document.getElementById("north")!.addEventListener(
-  "click",
-  () => movePlayer("north"),
-);
-document.getElementById("south")!.addEventListener(
-  "click",
-  () => movePlayer("south"),
-);
-document.getElementById("east")!.addEventListener(
-  "click",
-  () => movePlayer("east"),
-);
-document.getElementById("west")!.addEventListener(
-  "click",
-  () => movePlayer("west"),
+// Achievements and daily quests, with a toast for each one finished
+const achievementsPanel = new AchievementsPanel(
+  document.getElementById("achievementsPanel")!,
 );
 
-// Declare a variable to track whether geolocation is active
-let geolocationActive = false;
+function showQuestProgress() {
+  achievementsPanel.setProgress(
+    world.getAchievements(),
+    world.getDailyQuests(),
+    world.getNextQuestDay(),
+  );
+}
+showQuestProgress();
+
+world.on("quests-changed", showQuestProgress);
+
+world.on("achievement-unlocked", ({ achievement }) => {
+  toasts.show(
+    `🏆 Achievement unlocked: ${achievement.title} (${achievement.description})`,
+    "success",
+  );
+});
+
+world.on("quest-completed", ({ quest }) => {
+  toasts.show(`✅ Daily quest complete: ${quest.description}`, "success");
+});
+
+// Fog over unexplored cells and a heatmap of the visited ones
+const explorationOverlay = new ExplorationOverlay(map, board);
+explorationOverlay.update(world.getCellVisits(), world.getDiscoveredCells());
+statusPanel.setDiscovered(world.getDiscoveredCells().size);
+
+world.on("exploration-changed", ({ cellVisits, discoveredCells }) => {
+  explorationOverlay.update(cellVisits, discoveredCells);
+  statusPanel.setDiscovered(discoveredCells.size);
+});
+
+const undoButton = document.getElementById("undo") as HTMLButtonElement;
+const redoButton = document.getElementById("redo") as HTMLButtonElement;
+
+world.on("command-history-changed", ({ canUndo, canRedo }) => {
+  undoButton.disabled = !canUndo;
+  redoButton.disabled = !canRedo;
+});
+
+world.on("notice", ({ message, severity }) => {
+  toasts.show(message, severity);
+});
+
+world.on("state-changed", () => {
+  saveGameState(); // Save state after every player action
+});
+
+world.on("reset", () => {
+  clearCoinRoute();
+
+  // Clear the active profile's save slot
+  const profileId = profiles.getActive().id;
+  profiles.clearStats(profileId);
+  lastSyncedRevision = undefined;
+  lastSyncedState = undefined;
+  queueStorage(async () => {
+    await gameStore.delete(profileId);
+    saveChannel?.postMessage({ profileId, revision: undefined });
+  });
+  map.setView(toLatLng(world.getPlayerPosition()), worldSettings.zoom);
+});
+
+// Set up tooltips for all caches
+world.getCaches().forEach((cache) => updatePopup(cache));
+gridOverlay.update(world.getPlayerPosition(), world.getCaches());
+
+// Saves go to IndexedDB a step at a time instead of rewriting everything
+const gameStore = new GameStore(openStorageBackend(), {
+  rawTailLength: TRACK_RAW_POINTS,
+  compactBatch: TRACK_COMPACT_BATCH,
+  simplifyTolerance: TRACK_SIMPLIFY_TOLERANCE,
+});
+
+// Storage work runs one task at a time, in the order it was asked for
+let storageQueue = Promise.resolve();
+
+function queueStorage(task: () => Promise<void>) {
+  storageQueue = storageQueue.then(task).catch((error) =>
+    console.error(`Saved game storage failed: ${error}`)
+  );
+}
+
+// Tabs announce every save so the others can pick it up
+const saveChannel = globalThis.BroadcastChannel
+  ? new BroadcastChannel("geocoin-saves")
+  : undefined;
+
+// The save this tab last wrote or loaded. A different revision in storage
+// was written by another tab playing the same profile.
+let lastSyncedRevision: string | undefined;
+let lastSyncedState: GameState | undefined;
+
+// A stored game, or undefined if there is none or it cannot be used
+async function readStoredGame(profileId: string) {
+  try {
+    return await gameStore.read(profileId);
+  } catch (error) {
+    if (!(error instanceof SaveFormatError)) {
+      throw error;
+    }
+    return undefined;
+  }
+}
+
+let pendingSave: string | undefined; // Profile with a save already queued
+
+function saveGameState() {
+  const profileId = profiles.getActive().id;
+  if (pendingSave === profileId) {
+    return; // The queued save will pick up this change too
+  }
+  pendingSave = profileId;
+
+  queueStorage(async () => {
+    pendingSave = undefined;
+
+    // Another tab saved since we last looked: merge rather than overwrite
+    const storedRevision = await gameStore.readRevision(profileId);
+    const theirs = storedRevision && storedRevision !== lastSyncedRevision
+      ? await readStoredGame(profileId)
+      : undefined;
+    if (theirs && !sameWorld(theirs.state.worldSettings, worldSettings)) {
+      openWorld(theirs.state.worldSettings); // Imported elsewhere; follow it
+      return;
+    }
+
+    // Only the steps the store does not hold yet, unless merging needs all
+    const routeFrom = theirs
+      ? 0
+      : gameStore.routeStart(profileId, world.getMovementHistory());
+    let gameState = world.toGameState(routeFrom);
+    if (theirs) {
+      const { state, conflicts } = mergeGameStates(
+        lastSyncedState,
+        gameState,
+        theirs.state,
+      );
+      gameState = state;
+      world.loadGameState(gameState);
+      if (conflicts.length > 0) {
+        toasts.show(
+          `Another tab moved ${conflicts.length} of the same coins at the same time. The most recent move of each was kept.`,
+          "warning",
+        );
+      }
+    }
+
+    const revision = await gameStore.write(
+      profileId,
+      gameState,
+      Date.now(),
+      routeFrom,
+    );
+    lastSyncedRevision = revision;
+    lastSyncedState = mergeBase(gameState);
+    saveChannel?.postMessage({ profileId, revision });
+    profiles.updateStats(profileId, summarizeWorld(world));
+    renderProfileStats(profileId); // Keep the stats in the picker current
+  });
+}
+
+// Set an unreadable save aside so it can be inspected instead of lost
+async function quarantineSave(profileId: string, error: SaveFormatError) {
+  const quarantineKey = `gameState.quarantined.${profileId}.${Date.now()}`;
+  try {
+    const raw = await gameStore.readRaw(profileId);
+    localStorage.setItem(quarantineKey, JSON.stringify(raw));
+    console.error(`Saved game moved to "${quarantineKey}": ${error.message}`);
+  } catch (storageError) {
+    console.error(
+      `Saved game could not be set aside (${storageError}): ${error.message}`,
+    );
+  }
+  toasts.show(
+    "Your saved game could not be loaded, so a new game was started.",
+    "error",
+  );
+}
+
+// The save an older version of the game kept in local storage, if any. It
+// is only removed from there once the game store holds it; see
+// moveLocalSave.
+function readLocalSave(profileId: string): GameState | undefined {
+  const saveText = profiles.readLocalSave(profileId);
+  if (saveText === null) {
+    return undefined;
+  }
+  try {
+    return parseSave(saveText).state;
+  } catch (error) {
+    if (!(error instanceof SaveFormatError)) {
+      throw error;
+    }
+    localStorage.setItem(
+      `gameState.quarantined.${profileId}.${Date.now()}`,
+      saveText,
+    );
+    profiles.removeLocalSave(profileId);
+    console.error(`Old saved game could not be moved over: ${error.message}`);
+    return undefined;
+  }
+}
+
+// Write a save from local storage to the game store, then remove it from
+// local storage. If the write fails it stays put for the next load.
+async function moveLocalSave(profileId: string, gameState: GameState) {
+  try {
+    const revision = await gameStore.write(profileId, gameState);
+    lastSyncedRevision = revision;
+    lastSyncedState = mergeBase(gameState);
+    saveChannel?.postMessage({ profileId, revision });
+    profiles.removeLocalSave(profileId);
+    profiles.updateStats(profileId, summarizeGameState(gameState));
+  } catch (error) {
+    console.error(`Old saved game could not be moved over yet: ${error}`);
+  }
+}
+
+// Load the active profile's save, or start fresh if it has none yet
+async function loadGameState() {
+  const profileId = profiles.getActive().id;
+  journalPanel.setEntries(await gameStore.readJournal(profileId));
+
+  let saved;
+  try {
+    saved = await gameStore.read(profileId);
+  } catch (error) {
+    if (!(error instanceof SaveFormatError)) {
+      throw error;
+    }
+    await quarantineSave(profileId, error);
+  }
+
+  if (saved && !sameWorld(saved.state.worldSettings, worldSettings)) {
+    // The save knows its world best; the profile follows it there
+    profiles.updateSettings(profileId, { world: saved.state.worldSettings });
+    openWorld(saved.state.worldSettings);
+    return;
+  }
 
-// Function to handle geolocation updates
-function handleGeolocationUpdate(position: GeolocationPosition) {
-  const { latitude, longitude } = position.coords;
-  playerLocation = leaflet.latLng(latitude, longitude);
+  if (saved) {
+    lastSyncedRevision = saved.revision;
+    lastSyncedState = mergeBase(saved.state);
+    world.loadGameState(saved.state);
+  } else {
+    const localState = readLocalSave(profileId);
+    if (localState) {
+      world.loadGameState(localState);
+      await moveLocalSave(profileId, world.toGameState());
+    } else {
+      world.reset();
+      return;
+    }
+  }
+  map.setView(toLatLng(world.getPlayerPosition()), worldSettings.zoom);
+}
 
-  // Update the player marker's position
-  playerMarker.setLatLng(playerLocation);
+// Every location provider feeds this one pipeline
+function handleLocationUpdate(location: Location) {
+  world.moveTo(location);
 
   // Center the map on the new player location
-  map.setView(playerLocation, GAMEPLAY_ZOOM_LEVEL);
+  map.setView(toLatLng(world.getPlayerPosition()), worldSettings.zoom);
+}
 
-  // Update visible caches
-  updateCacheLocations();
+const stepOptions = {
+  getPosition: () => world.getPlayerPosition(),
+  moveDistance: worldSettings.moveDistance,
+};
+
+// On-screen arrows and the keyboard are always available
+const buttonProvider = new ButtonLocationProvider({
+  north: document.getElementById("north")!,
+  south: document.getElementById("south")!,
+  east: document.getElementById("east")!,
+  west: document.getElementById("west")!,
+}, stepOptions);
+const keyboardProvider = new KeyboardLocationProvider(document, stepOptions);
+buttonProvider.start(handleLocationUpdate);
+keyboardProvider.start(handleLocationUpdate);
+
+// Device geolocation is switched on and off with the sensor button
+const geolocationStatusLabels: { [status in GeolocationStatus]: string } = {
+  off: "",
+  waiting: "Locating…",
+  tracking: "GPS on",
+  inaccurate: "GPS too imprecise",
+  jumped: "Ignored a GPS jump",
+  denied: "Location permission denied",
+  unavailable: "Location unavailable",
+  timeout: "Location timed out",
+};
+
+let accuracyCircle: leaflet.Circle | undefined; // How far off the last raw fix may be
+
+function updateGeolocationStatus(status: GeolocationStatus) {
+  statusPanel.setGeolocation(status, geolocationStatusLabels[status]);
+
+  if (status === "off" || status === "denied") {
+    accuracyCircle?.remove();
+    accuracyCircle = undefined;
+  }
 }
 
+function updateAccuracyCircle(fix: GeolocationFix) {
+  const center = toLatLng(fix.location);
+  if (accuracyCircle) {
+    accuracyCircle.setLatLng(center).setRadius(fix.accuracy);
+  } else {
+    accuracyCircle = leaflet.circle(center, {
+      radius: fix.accuracy,
+      color: "#3388ff",
+      weight: 1,
+      fillOpacity: 0.1,
+      interactive: false,
+    }).addTo(map);
+  }
+}
+
+const geolocationProvider = navigator.geolocation
+  ? new GeolocationProvider(navigator.geolocation, {
+    maxAccuracy: GEOLOCATION_MAX_ACCURACY,
+    maxSpeed: GEOLOCATION_MAX_SPEED,
+    smoothing: GEOLOCATION_SMOOTHING,
+    onStatus: updateGeolocationStatus,
+    onFix: updateAccuracyCircle,
+  })
+  : undefined;
+
 // Function to toggle geolocation tracking
 function toggleGeolocation() {
-  if (geolocationActive) {
+  if (!geolocationProvider) {
+    toasts.show("Geolocation is not supported by your browser.", "error");
+  } else if (geolocationProvider.isActive()) {
     // If geolocation is active, stop watching the position
-    geolocationActive = false;
-    alert("Geolocation tracking disabled.");
+    geolocationProvider.stop();
+    profiles.updateSettings(profiles.getActive().id, {
+      resumeGeolocation: false,
+    });
+    toasts.show("Geolocation tracking disabled.");
   } else {
     // Request current position and keep watching
-    if (navigator.geolocation) {
-      geolocationActive = true;
-      alert("Geolocation tracking enabled.");
+    geolocationProvider.start(handleLocationUpdate);
+    profiles.updateSettings(profiles.getActive().id, {
+      resumeGeolocation: true,
+    });
+    toasts.show("Geolocation tracking enabled.");
+  }
+}
 
-      navigator.geolocation.watchPosition(handleGeolocationUpdate, (error) => {
-        console.error("Geolocation error: ", error);
-      });
-    } else {
-      alert("Geolocation is not supported by your browser.");
+// Simulated location from a recorded GPX or GeoJSON track
+let routeReplay: RouteReplay | undefined;
+
+const routeFileInput = document.getElementById("routeFile") as HTMLInputElement;
+const replayControls = document.getElementById("replayControls")!;
+const replayStatus = document.getElementById("replayStatus")!;
+const replaySpeedInput = document.getElementById(
+  "replaySpeed",
+) as HTMLInputElement;
+
+function updateReplayStatus() {
+  if (routeReplay) {
+    replayStatus.textContent = `${
+      routeReplay.isPlaying() ? "Playing" : "Paused"
+    } at ${routeReplay.playbackRate}x${routeReplay.loop ? ", looping" : ""}`;
+  }
+}
+
+function startReplay(routeText: string) {
+  let route: Location[];
+  try {
+    route = parseRoute(routeText);
+  } catch (error) {
+    if (!(error instanceof RouteFormatError)) {
+      throw error;
     }
+    toasts.show(`That route could not be replayed: ${error.message}`, "error");
+    return;
   }
+
+  routeReplay?.stop();
+  routeReplay = new RouteReplay(route, {
+    speed: Number(replaySpeedInput.value) || WALKING_SPEED,
+    loop: false,
+    onFinish: updateReplayStatus,
+  });
+  replayControls.hidden = false;
+  routeReplay.start(handleLocationUpdate);
+  updateReplayStatus();
 }
 
-const movementHistory: LatLng[] = []; // Array to keep track of the player's position history
-let movementPolyline: leaflet.Polyline; // The polyline to display the player's path on the map
+function stopReplay() {
+  routeReplay?.stop();
+  routeReplay = undefined;
+  replayControls.hidden = true;
+}
 
-function resetGame() {
-  const confirmReset = globalThis.confirm(
-    "Are you sure you want to erase your game state and reset all progress?",
-  );
+routeFileInput.addEventListener("change", async () => {
+  const file = routeFileInput.files?.[0];
+  routeFileInput.value = ""; // Let the same file be picked again later
+  if (file) {
+    startReplay(await file.text());
+  }
+});
+
+document.getElementById("replay")!.addEventListener(
+  "click",
+  () => routeFileInput.click(),
+);
+document.getElementById("replayPlay")!.addEventListener("click", () => {
+  if (routeReplay?.isPlaying()) {
+    routeReplay.pause();
+  } else {
+    routeReplay?.play();
+  }
+  updateReplayStatus();
+});
+document.getElementById("replayFast")!.addEventListener("click", () => {
+  routeReplay?.fastForward();
+  updateReplayStatus();
+});
+document.getElementById("replayLoop")!.addEventListener("click", () => {
+  if (routeReplay) {
+    routeReplay.loop = !routeReplay.loop;
+  }
+  updateReplayStatus();
+});
+document.getElementById("replayStop")!.addEventListener("click", stopReplay);
+replaySpeedInput.addEventListener("change", () => {
+  const speed = Number(replaySpeedInput.value);
+  if (speed > 0) {
+    profiles.updateSettings(profiles.getActive().id, { replaySpeed: speed });
+    if (routeReplay) {
+      routeReplay.speed = speed;
+    }
+  }
+});
+
+async function resetGame() {
+  const confirmReset = await dialog.confirm({
+    title: "Reset game",
+    message:
+      "Are you sure you want to erase your game state and reset all progress?",
+    confirmLabel: "Reset",
+  });
 
   if (confirmReset) {
-    playerCoins = 0;
-    cacheLocations.length = 0; // Clear all existing cache locations
-
-    // Remove all layers besides the player's marker
-    map.eachLayer((layer: leaflet.Layer) => {
-      if (layer instanceof leaflet.Marker && layer !== playerMarker) {
-        map.removeLayer(layer);
-      } else if (layer instanceof leaflet.Polyline) {
-        map.removeLayer(layer);
-      }
-    });
+    recordInJournal([journalEntryForReset(world.getPlayerPosition())]);
+    world.reset();
+    toasts.show(
+      "Game has been reset. All coins are returned, and history is cleared.",
+      "success",
+    );
+  } else {
+    toasts.show("Game reset canceled.");
+  }
+}
 
-    // Re-initialize cache locations
-    initializeCacheLocations(OAKES_CLASSROOM, 5, 100);
+// Every move, collect and deposit is kept in the profile's journal, along
+// with coins that appear or vanish any other way
+const journalPanel = new JournalPanel(
+  document.getElementById("journalPanel")!,
+  { maxRows: JOURNAL_MAX_ROWS, onExport: exportJournal },
+);
 
-    // Reset player position
-    playerLocation = OAKES_CLASSROOM;
-    playerMarker.setLatLng(playerLocation);
-    map.setView(playerLocation, GAMEPLAY_ZOOM_LEVEL);
+function recordInJournal(entries: JournalEntry[]) {
+  if (entries.length === 0) {
+    return;
+  }
+  const profileId = profiles.getActive().id;
+  entries.forEach((entry) => journalPanel.append(entry));
+  queueStorage(() => gameStore.appendJournal(profileId, entries));
+}
 
-    // Clear movement history
-    movementHistory.length = 0;
+world.on("action", (event) => {
+  recordInJournal(journalEntriesForAction(event));
+});
+world.on("cache-refilled", (event) => {
+  recordInJournal(journalEntriesForRefill(event, world.getPlayerPosition()));
+});
+world.on("coin-revoked", ({ coin }) => {
+  recordInJournal([journalEntryForRevoke(coin, world.getPlayerPosition())]);
+});
+
+function exportJournal(format: JournalExportFormat, entries: JournalEntry[]) {
+  if (format === "csv") {
+    downloadFile("geocoin-journal", "csv", journalToCSV(entries), "text/csv");
+  } else {
+    downloadFile(
+      "geocoin-journal",
+      "json",
+      journalToJSON(entries),
+      "application/json",
+    );
+  }
+}
+
+// Save a file named after today's date, e.g. geocoin-save-2024-11-20.json
+function downloadFile(
+  name: string,
+  extension: string,
+  contents: string,
+  type: string,
+) {
+  const date = new Date().toISOString().slice(0, 10);
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(new Blob([contents], { type }));
+  link.download = `${name}-${date}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+// Offer the whole game as a JSON file and as a pasteable share string
+async function exportGame() {
+  const saveText = serializeSave(world.toGameState());
+  downloadFile("geocoin-save", "json", saveText, "application/json");
+
+  dialog.prompt({
+    title: "Share string",
+    message: "Copy this to another device to carry the game over:",
+    value: await encodeShareString(saveText),
+    readOnly: true,
+    confirmLabel: "Done",
+    cancelLabel: null,
+  });
+}
+
+// Validate an incoming save, show what would change, then replace the game
+async function importSave(
+  readSave: () => SaveEnvelope | Promise<SaveEnvelope>,
+) {
+  let envelope: SaveEnvelope;
+  try {
+    envelope = await readSave();
+  } catch (error) {
+    if (!(error instanceof SaveFormatError)) {
+      throw error;
+    }
+    toasts.show(`That save could not be imported: ${error.message}`, "error");
+    return;
+  }
 
-    // Optionally clear persistent state storage
-    localStorage.removeItem("gameState");
+  const confirmImport = await dialog.confirm({
+    title: "Import game",
+    message: `Replace your current game with this save?\n\n${
+      describeImport(world.toGameState(), envelope)
+    }`,
+    confirmLabel: "Replace",
+  });
 
-    // Update the map with new cache locations
-    cacheLocations.forEach((_, index) => {
-      updatePopup(index);
+  if (
+    confirmImport && !sameWorld(envelope.state.worldSettings, worldSettings)
+  ) {
+    // A save from another world is stored as it is and played there
+    const profileId = profiles.getActive().id;
+    const { worldSettings: importedWorld } = envelope.state;
+    queueStorage(async () => {
+      const revision = await gameStore.write(profileId, envelope.state);
+      saveChannel?.postMessage({ profileId, revision });
     });
+    profiles.updateSettings(profileId, { world: importedWorld });
+    profiles.updateStats(profileId, summarizeGameState(envelope.state));
+    openWorld(importedWorld);
+  } else if (confirmImport) {
+    world.loadGameState(envelope.state);
+    saveGameState();
+    map.setView(toLatLng(world.getPlayerPosition()), worldSettings.zoom);
+    toasts.show("Game imported.", "success");
+  } else {
+    toasts.show("Import canceled.");
+  }
+}
 
-    alert(
-      "Game has been reset. All coins are returned, and history is cleared.",
-    );
+// Export the route, caches and coin movements for GIS tools
+function exportGeoJSON() {
+  const geojson = exportTrackGeoJSON(world.toGameState(), board);
+  downloadFile(
+    "geocoin-track",
+    "geojson",
+    JSON.stringify(geojson, null, 2),
+    "application/geo+json",
+  );
+}
+
+function exportGPX() {
+  const gpx = exportTrackGPX(world.toGameState(), board);
+  downloadFile("geocoin-track", "gpx", gpx, "application/gpx+xml");
+}
+
+const importFileInput = document.getElementById(
+  "importFile",
+) as HTMLInputElement;
+
+async function importGame() {
+  const shareString = await dialog.prompt({
+    title: "Import game",
+    message: "Paste a share string, or leave it empty to pick a save file:",
+  });
+  if (shareString === null) {
+    return;
+  }
+
+  if (shareString.trim() === "") {
+    importFileInput.click();
   } else {
-    alert("Game reset canceled.");
+    importSave(() => decodeShareString(shareString));
   }
 }
 
-function updateMovementHistory(newPosition: LatLng) {
-  movementHistory.push(newPosition);
+importFileInput.addEventListener("change", async () => {
+  const file = importFileInput.files?.[0];
+  importFileInput.value = ""; // Let the same file be picked again later
+  if (file) {
+    const saveText = await file.text();
+    importSave(() => parseSave(saveText));
+  }
+});
 
-  // Remove the previous polyline from the map, if it exists
-  if (movementPolyline) {
-    map.removeLayer(movementPolyline);
+// Optional multiplayer: caches are shared through a server and other
+// players are shown on the map. Play carries on while it cannot be reached.
+let syncClient: SyncClient | undefined;
+let syncStatus: SyncStatus | "off" = "off";
+let syncPending = 0; // Collects and deposits the server has yet to answer
+let otherPlayers: RemotePlayer[] = [];
+const otherPlayersLayer = leaflet.layerGroup().addTo(map);
+
+function showSyncStatus() {
+  statusPanel.setConnection(syncStatus, syncPending, otherPlayers.length);
+}
+
+function showOtherPlayers(players: RemotePlayer[]) {
+  otherPlayers = players;
+  otherPlayersLayer.clearLayers();
+  players.forEach((player) => {
+    leaflet.circleMarker(toLatLng(player.position), {
+      radius: 8,
+      color: "#8e24aa",
+      fillOpacity: 0.6,
+    }).bindTooltip(textElement("span", player.name), {
+      permanent: true,
+      direction: "top",
+      className: "other-player-label",
+    }).addTo(otherPlayersLayer);
+  });
+  showSyncStatus();
+}
+
+// The server turned down something already done here
+function handleRejectedOp(op: CacheOp, reason: string) {
+  if (op.type === "take" && world.revokeCoin(op.coin.id)) {
+    toasts.show(
+      `Another player collected coin ${op.coin.id} first, so it has gone to them.`,
+      "warning",
+    );
+  } else if (op.type === "put") {
+    toasts.show(
+      `Coin ${op.coin.id} could not be left in cache ${op.cacheId}: ${reason}.`,
+      "warning",
+    );
   }
+}
 
-  // Create a new polyline with the updated movement history
-  movementPolyline = leaflet.polyline(movementHistory, { color: "blue" }).addTo(
-    map,
+// Who this browser is to the server, made up the first time it connects.
+// Profile ids are no good, as every new install starts with "default".
+function syncPlayerId(): string {
+  let playerId = localStorage.getItem(SYNC_PLAYER_ID_KEY);
+  if (!playerId) {
+    playerId = `player-${
+      Array.from(crypto.getRandomValues(new Uint32Array(4)))
+        .map((part) => part.toString(36)).join("")
+    }`;
+    localStorage.setItem(SYNC_PLAYER_ID_KEY, playerId);
+  }
+  return playerId;
+}
+
+function stopSync() {
+  syncClient?.stop();
+  syncClient = undefined;
+  syncStatus = "off";
+  syncPending = 0;
+  showOtherPlayers([]);
+}
+
+// Connect the active profile to its server, if it has one
+function startSync() {
+  stopSync();
+  const profile = profiles.getActive();
+  if (!profile.settings.syncServer) {
+    return;
+  }
+
+  syncClient = new SyncClient({
+    url: profile.settings.syncServer,
+    playerId: syncPlayerId(),
+    profileId: profile.id,
+    name: profile.name,
+    world: worldSettingsToParams(worldSettings).toString(),
+    storage: localStorage,
+    reconnectDelay: SYNC_RECONNECT_DELAY,
+    getCaches: () => world.getCaches(),
+    getPosition: () => world.getPlayerPosition(),
+    onStatus: (status, pending) => {
+      syncStatus = status;
+      syncPending = pending;
+      showOtherPlayers(status === "online" ? otherPlayers : []);
+    },
+    onCaches: (caches) => world.adoptCaches(caches),
+    onPlayers: showOtherPlayers,
+    onRejected: handleRejectedOp,
+  });
+  syncClient.start();
+}
+
+world.on("action", ({ action, source }) => {
+  const op = syncClient && cacheOpForAction(world, action, source);
+  if (op) {
+    syncClient!.send(op);
+  }
+});
+
+world.on("cache-refilled", ({ cacheId, coins, from, to }) => {
+  syncClient?.send({ type: "refill", cacheId, coins, from, to });
+});
+
+world.on("caches-refreshed", () => syncClient?.subscribe());
+world.on("player-moved", () => syncClient?.sendPosition());
+
+function isServerAddress(address: string): boolean {
+  try {
+    const { protocol } = new URL(address);
+    return protocol === "ws:" || protocol === "wss:";
+  } catch {
+    return false;
+  }
+}
+
+async function configureMultiplayer() {
+  const profile = profiles.getActive();
+  const address = await dialog.prompt({
+    title: "Multiplayer",
+    message:
+      "Address of a multiplayer server, such as ws://localhost:8080, or leave it empty to play alone:",
+    value: profile.settings.syncServer,
+  });
+  if (address === null) {
+    return;
+  }
+
+  const syncServer = address.trim();
+  if (syncServer && !isServerAddress(syncServer)) {
+    toasts.show(`"${syncServer}" is not a ws:// or wss:// address.`, "error");
+    return;
+  }
+  profiles.updateSettings(profile.id, { syncServer });
+  startSync();
+  toasts.show(
+    syncServer ? `Sharing caches through ${syncServer}.` : "Playing alone.",
   );
 }
 
-function centerMapOnCache(cacheId: string) {
-  const cache = cacheLocations.find((cache) => cache.id === cacheId);
-  if (cache) {
-    const cacheCenter = board.getCellBounds(cache.cell).getCenter();
-    map.setView(cacheCenter, GAMEPLAY_ZOOM_LEVEL);
+// Profile picker: each profile is a separate game with its own settings
+const profileSelect = document.getElementById(
+  "profileSelect",
+) as HTMLSelectElement;
+
+function describeProfile(profile: Profile): string {
+  const { coinsHeld, metersWalked, cellsDiscovered } = profile.stats;
+  return `${profile.name} (${coinsHeld} coins, ${
+    Math.round(metersWalked)
+  } m walked, ${cellsDiscovered} cells)`;
+}
+
+// Refresh one profile's entry without rebuilding the whole picker
+function renderProfileStats(profileId: string) {
+  const profile = profiles.find(profileId);
+  const option = Array.from(profileSelect.options).find((option) =>
+    option.value === profileId
+  );
+  if (profile && option) {
+    option.textContent = describeProfile(profile);
   }
 }
 
-function saveGameState() {
-  const gameState = {
-    playerCoins: playerCoins,
-    playerPosition: { lat: playerLocation.lat, lng: playerLocation.lng },
-    cacheLocations: cacheLocations.map((cache) => ({
-      id: cache.id,
-      coins: cache.coins,
-      cell: cache.cell,
-    })),
-    movementHistory: movementHistory.map((location) => ({
-      lat: location.lat,
-      lng: location.lng,
-    })),
-  };
-  localStorage.setItem("gameState", JSON.stringify(gameState));
-}
-
-function loadGameState() {
-  const savedState = localStorage.getItem("gameState");
-  if (savedState) {
-    const gameState: GameState = JSON.parse(savedState);
-
-    // Restore player's coins count
-    playerCoins = gameState.playerCoins || 0;
-
-    // Restore player location
-    playerLocation = leaflet.latLng(
-      gameState.playerPosition.lat,
-      gameState.playerPosition.lng,
-    );
-    playerMarker.setLatLng(playerLocation);
-    map.setView(playerLocation, GAMEPLAY_ZOOM_LEVEL);
-
-    // Restore cache locations
-    cacheLocations.length = 0; // Clear any existing caches
-    gameState.cacheLocations.forEach((cacheData: CacheData) => {
-      cacheLocations.push({
-        id: cacheData.id,
-        coins: cacheData.coins,
-        cell: cacheData.cell,
-      });
-    });
+function renderProfilePicker() {
+  profileSelect.innerHTML = "";
+  profiles.list().forEach((profile) => {
+    const option = document.createElement("option");
+    option.value = profile.id;
+    option.textContent = describeProfile(profile);
+    profileSelect.appendChild(option);
+  });
+  profileSelect.value = profiles.getActive().id;
+  (document.getElementById("profileDelete") as HTMLButtonElement).disabled =
+    profiles.list().length <= 1;
+}
+
+// Bring the active profile's settings into the UI
+function applyProfileSettings() {
+  const { settings } = profiles.getActive();
+  replaySpeedInput.value = String(settings.replaySpeed);
+  if (routeReplay) {
+    routeReplay.speed = settings.replaySpeed;
+  }
+  if (settings.resumeGeolocation && geolocationProvider) {
+    geolocationProvider.start(handleLocationUpdate);
+  }
+  gridOverlay.setVisible(settings.showGrid);
+  explorationOverlay.setVisible(settings.showExploration);
+}
+
+// Stop anything moving the current player, then load the active profile,
+// which may be played in another world
+function enterActiveProfile() {
+  stopReplay();
+  geolocationProvider?.stop();
+  clearCoinRoute();
+  stopSync();
+
+  const activeWorld = profileWorld(profiles.getActive());
+  if (!sameWorld(activeWorld, worldSettings)) {
+    openWorld(activeWorld);
+    return;
+  }
+  queueStorage(loadGameState);
+  queueStorage(() => {
+    startSync(); // Once the save is in, so the server is shown its caches
+    return Promise.resolve();
+  });
+  applyProfileSettings();
+  renderProfilePicker();
+}
+
+function switchProfile(profileId: string) {
+  if (profileId === profiles.getActive().id) {
+    return;
+  }
+  saveGameState();
+  profiles.setActive(profileId);
+  enterActiveProfile();
+}
+
+async function askProfileName(message: string, suggestion: string) {
+  const name = (await dialog.prompt({ message, value: suggestion }))?.trim();
+  return name ? name : undefined;
+}
+
+async function createProfile() {
+  const name = await askProfileName(
+    "Name for the new profile:",
+    `Player ${profiles.list().length + 1}`,
+  );
+  if (name) {
+    switchProfile(profiles.create(name).id);
+  }
+}
 
-    updateCacheLocations(); // Update cache visibility based on player location
+async function duplicateProfile() {
+  const source = profiles.getActive();
+  const name = await askProfileName(
+    `Name for the copy of "${source.name}":`,
+    `${source.name} (copy)`,
+  );
+  if (name) {
+    saveGameState(); // Copy the game as it is right now
+    const copy = profiles.duplicate(source.id, name)!;
+    queueStorage(() => gameStore.copy(source.id, copy.id));
+    switchProfile(copy.id);
+  }
+}
+
+async function renameProfile() {
+  const profile = profiles.getActive();
+  const name = await askProfileName("New name for this profile:", profile.name);
+  if (name) {
+    profiles.rename(profile.id, name);
+    renderProfilePicker();
+  }
+}
 
-    // Restore the movement history
-    movementHistory.length = 0; // Clear existing movement history
-    gameState.movementHistory.forEach((location: Location) => {
-      movementHistory.push(leaflet.latLng(location.lat, location.lng));
+// A changed world is played in a new profile, so no game is lost to it
+async function playWorld(settings: WorldSettings) {
+  if (sameWorld(settings, worldSettings)) {
+    toasts.show("That is the world you are already playing.");
+    return;
+  }
+  const name = await askProfileName(
+    "Name for the profile to play this world in:",
+    worldProfileName(settings),
+  );
+  if (name) {
+    const profile = profiles.create(name);
+    profiles.updateSettings(profile.id, { world: settings });
+    switchProfile(profile.id); // Opens the new world
+  }
+}
+
+function shareWorld(settings: WorldSettings) {
+  dialog.prompt({
+    title: "World link",
+    message: `Anyone opening this link plays ${describeWorld(settings)}:`,
+    value: worldLink(settings),
+    readOnly: true,
+    confirmLabel: "Done",
+    cancelLabel: null,
+  });
+}
+
+// World settings: the one being played, ready to change or share
+const settingsPanel = new SettingsPanel(
+  document.getElementById("settingsPanel")!,
+  { onPlay: playWorld, onShare: shareWorld },
+);
+settingsPanel.setWorld(worldSettings);
+
+async function deleteProfile() {
+  const profile = profiles.getActive();
+  const confirmDelete = await dialog.confirm({
+    title: "Delete profile",
+    message:
+      `Delete the profile "${profile.name}" and its saved game? This cannot be undone.`,
+    confirmLabel: "Delete",
+  });
+
+  if (confirmDelete && profiles.delete(profile.id)) {
+    queueStorage(async () => {
+      await gameStore.delete(profile.id);
+      await gameStore.deleteJournal(profile.id);
+      saveChannel?.postMessage({ profileId: profile.id, revision: undefined });
     });
-    if (movementHistory.length > 0) {
-      movementPolyline = leaflet.polyline(movementHistory, { color: "blue" })
-        .addTo(map);
-    }
+    enterActiveProfile(); // Deleting the active profile moves to another
   }
 }
 
-loadGameState(); // Load the game state from local storage
+profileSelect.addEventListener(
+  "change",
+  () => switchProfile(profileSelect.value),
+);
+document.getElementById("profileNew")!.addEventListener("click", createProfile);
+document.getElementById("profileDuplicate")!.addEventListener(
+  "click",
+  duplicateProfile,
+);
+document.getElementById("profileRename")!.addEventListener(
+  "click",
+  renameProfile,
+);
+document.getElementById("profileDelete")!.addEventListener(
+  "click",
+  deleteProfile,
+);
+
+// Profile changes in other tabs arrive through local storage
+globalThis.addEventListener("storage", (event) => {
+  if (
+    event.storageArea === localStorage &&
+    profiles.isProfileListKey(event.key)
+  ) {
+    if (profiles.reload()) {
+      renderProfilePicker();
+    } else {
+      enterActiveProfile(); // This tab's profile was deleted elsewhere
+    }
+  }
+});
+
+// Saves in other tabs arrive on the channel; pick up any for this profile
+saveChannel?.addEventListener("message", (event) => {
+  const { profileId, revision } = (event as MessageEvent).data;
+  if (
+    profileId !== profiles.getActive().id || revision === lastSyncedRevision
+  ) {
+    return;
+  }
+
+  queueStorage(async () => {
+    if (revision === undefined) {
+      world.reset(); // Reset or deleted in another tab
+      return;
+    }
+    const saved = await readStoredGame(profileId);
+    if (saved && !sameWorld(saved.state.worldSettings, worldSettings)) {
+      openWorld(saved.state.worldSettings);
+      return;
+    }
+    if (saved && saved.revision !== lastSyncedRevision) {
+      lastSyncedRevision = saved.revision;
+      lastSyncedState = mergeBase(saved.state);
+      world.loadGameState(saved.state);
+      map.setView(toLatLng(world.getPlayerPosition()), worldSettings.zoom);
+      journalPanel.setEntries(await gameStore.readJournal(profileId));
+    }
+  });
+});
+
+enterActiveProfile(); // Load the active profile's saved game
 
 // Attach event listener for the reset game button
 document.getElementById("reset")!.addEventListener("click", resetGame);
 
+// Attach event listeners for undo and redo, with the usual shortcuts
+undoButton.addEventListener("click", () => world.undo());
+redoButton.addEventListener("click", () => world.redo());
+document.addEventListener("keydown", (event) => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+    return;
+  }
+  const target = event.target as HTMLElement | null;
+  if (target?.closest?.("input, select, textarea")) {
+    return; // Let form fields keep their own undo
+  }
+
+  const key = event.key.toLowerCase();
+  if (key === "z" && !event.shiftKey) {
+    event.preventDefault();
+    world.undo();
+  } else if (key === "y" || (key === "z" && event.shiftKey)) {
+    event.preventDefault();
+    world.redo();
+  }
+});
+
+// Attach event listeners for exporting and importing saves
+document.getElementById("export")!.addEventListener("click", exportGame);
+document.getElementById("import")!.addEventListener("click", importGame);
+document.getElementById("exportGeoJSON")!.addEventListener(
+  "click",
+  exportGeoJSON,
+);
+document.getElementById("exportGPX")!.addEventListener("click", exportGPX);
+document.getElementById("grid")!.addEventListener("click", () => {
+  const showGrid = !gridOverlay.isVisible();
+  gridOverlay.setVisible(showGrid);
+  profiles.updateSettings(profiles.getActive().id, { showGrid });
+});
+document.getElementById("exploration")!.addEventListener("click", () => {
+  const showExploration = !explorationOverlay.isVisible();
+  explorationOverlay.setVisible(showExploration);
+  profiles.updateSettings(profiles.getActive().id, { showExploration });
+});
+document.getElementById("achievements")!.addEventListener("click", () => {
+  showQuestProgress(); // Today's quests may have changed since the last action
+  achievementsPanel.toggle();
+});
+document.getElementById("multiplayer")!.addEventListener(
+  "click",
+  configureMultiplayer,
+);
+document.getElementById("settings")!.addEventListener(
+  "click",
+  () => settingsPanel.toggle(),
+);
+document.getElementById("journal")!.addEventListener(
+  "click",
+  () => journalPanel.toggle(),
+);
+
 // Attach event listener for the geolocation toggle button
 document.getElementById("sensor")!.addEventListener("click", toggleGeolocation);
 
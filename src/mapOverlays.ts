@@ -0,0 +1,206 @@
+// Map layers that draw the Board itself: the grid of cells around the
+// player, tinted by what their caches hold, cache markers badged with how
+// many coins are inside, and the fog and heatmap of where the player has
+// been. Colours live in style.css.
+import leaflet from "leaflet";
+import type { Board } from "./board.ts";
+import {
+  Cache,
+  cacheIdForCell,
+  CacheState,
+  cacheState,
+  Location,
+} from "./gameWorld.ts";
+
+const CACHE_STATE_LABELS: { [state in CacheState]: string } = {
+  untouched: "never visited",
+  full: "full",
+  partial: "partly emptied",
+  empty: "empty",
+};
+
+const MARKER_SIZE = 28; // Pixels across
+
+// Fog and heat sit under the grid, routes and markers
+const EXPLORATION_PANE = "exploration";
+const EXPLORATION_PANE_Z_INDEX = 350; // Leaflet's overlayPane is 400
+const HEAT_MAX_OPACITY = 0.6; // For the most visited cell
+const VIEW_MARGIN = 0.5; // Extra view drawn on each side, so panning shows no gaps
+const MAX_EXPLORATION_CELLS = 5000; // Past this the view is one sheet of fog
+
+export function describeCache(cache: Cache): string {
+  return `Cache ${cache.id}: ${cache.coins.length} ${
+    cache.coins.length === 1 ? "coin" : "coins"
+  }, ${CACHE_STATE_LABELS[cacheState(cache)]}`;
+}
+
+// A round marker coloured by the cache's state with its coin count inside;
+// bonus cells get a glow while an event runs
+export function cacheMarkerIcon(cache: Cache, bonus = false): leaflet.DivIcon {
+  const badge = document.createElement("span");
+  badge.className = "cache-marker-badge";
+  badge.textContent = String(cache.coins.length);
+
+  return leaflet.divIcon({
+    className: `cache-marker cache-${cacheState(cache)}${
+      bonus ? " cache-bonus" : ""
+    }`,
+    html: badge,
+    iconSize: [MARKER_SIZE, MARKER_SIZE],
+    iconAnchor: [MARKER_SIZE / 2, MARKER_SIZE / 2],
+    popupAnchor: [0, -MARKER_SIZE / 2],
+  });
+}
+
+// The cells within the board's visibility radius of the player, outlined,
+// with cache cells filled in by state. Hidden until switched on.
+export class GridOverlay {
+  private readonly map: leaflet.Map;
+  private readonly board: Board;
+  private readonly layer = leaflet.layerGroup();
+  private center?: Location;
+  private caches: readonly Cache[] = [];
+
+  constructor(map: leaflet.Map, board: Board) {
+    this.map = map;
+    this.board = board;
+  }
+
+  isVisible(): boolean {
+    return this.map.hasLayer(this.layer);
+  }
+
+  setVisible(visible: boolean) {
+    if (visible === this.isVisible()) {
+      return;
+    }
+    if (visible) {
+      this.layer.addTo(this.map);
+      this.render();
+    } else {
+      this.layer.remove();
+    }
+  }
+
+  // Remember what to draw; it is only drawn while the overlay is shown
+  update(center: Location, caches: readonly Cache[]) {
+    this.center = center;
+    this.caches = caches;
+    this.render();
+  }
+
+  private render() {
+    if (!this.isVisible() || !this.center) {
+      return;
+    }
+
+    const caches = new Map(this.caches.map((cache) => [cache.id, cache]));
+    this.layer.clearLayers();
+    this.board.getCellsNearPoint(this.center).forEach((cell) => {
+      const cache = caches.get(cacheIdForCell(cell));
+      leaflet.rectangle(this.board.getCellBounds(cell), {
+        className: cache
+          ? `grid-cell cache-${cacheState(cache)}`
+          : "grid-cell grid-cell-vacant",
+        interactive: false, // Clicks go through to the map and markers
+      }).addTo(this.layer);
+    });
+  }
+}
+
+// Fog over every cell never within sight of the player and a heatmap of
+// how many steps were taken in each visited cell. Only cells around the
+// current view are drawn, so the layer stays small however far they walk.
+export class ExplorationOverlay {
+  private readonly map: leaflet.Map;
+  private readonly board: Board;
+  private readonly layer = leaflet.layerGroup();
+  private cellVisits: ReadonlyMap<string, number> = new Map();
+  private discoveredCells: ReadonlySet<string> = new Set();
+
+  constructor(map: leaflet.Map, board: Board) {
+    this.map = map;
+    this.board = board;
+    map.createPane(EXPLORATION_PANE).style.zIndex = String(
+      EXPLORATION_PANE_Z_INDEX,
+    );
+    map.on("moveend", () => this.render());
+  }
+
+  isVisible(): boolean {
+    return this.map.hasLayer(this.layer);
+  }
+
+  setVisible(visible: boolean) {
+    if (visible === this.isVisible()) {
+      return;
+    }
+    if (visible) {
+      this.layer.addTo(this.map);
+      this.render();
+    } else {
+      this.layer.remove();
+    }
+  }
+
+  update(
+    cellVisits: ReadonlyMap<string, number>,
+    discoveredCells: ReadonlySet<string>,
+  ) {
+    this.cellVisits = cellVisits;
+    this.discoveredCells = discoveredCells;
+    this.render();
+  }
+
+  private render() {
+    if (!this.isVisible()) {
+      return;
+    }
+
+    // Heat is relative to the busiest cell, on a log scale so one long
+    // stop doesn't wash out everywhere else
+    let busiest = 0;
+    this.cellVisits.forEach((visits) => {
+      busiest = Math.max(busiest, visits);
+    });
+
+    const bounds = this.map.getBounds().pad(VIEW_MARGIN);
+    const southWest = this.board.getCellForPoint(bounds.getSouthWest());
+    const northEast = this.board.getCellForPoint(bounds.getNorthEast());
+    this.layer.clearLayers();
+    const cellCount = (northEast.i - southWest.i + 1) *
+      (northEast.j - southWest.j + 1);
+    if (cellCount > MAX_EXPLORATION_CELLS) {
+      // Too far out to draw cell by cell
+      leaflet.rectangle(bounds, {
+        className: "fog-cell",
+        pane: EXPLORATION_PANE,
+        stroke: false,
+        interactive: false,
+      }).addTo(this.layer);
+      return;
+    }
+    for (let i = southWest.i; i <= northEast.i; i++) {
+      for (let j = southWest.j; j <= northEast.j; j++) {
+        const cellId = cacheIdForCell({ i, j });
+        const visits = this.cellVisits.get(cellId) ?? 0;
+        if (this.discoveredCells.has(cellId) && visits === 0) {
+          continue; // Seen but never entered: clear
+        }
+        const style: leaflet.PathOptions = visits > 0
+          ? {
+            className: "heat-cell",
+            fillOpacity: HEAT_MAX_OPACITY * Math.log1p(visits) /
+              Math.log1p(busiest),
+          }
+          : { className: "fog-cell" };
+        leaflet.rectangle(this.board.getCellBounds({ i, j }), {
+          ...style,
+          pane: EXPLORATION_PANE,
+          stroke: false,
+          interactive: false,
+        }).addTo(this.layer);
+      }
+    }
+  }
+}
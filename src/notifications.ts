@@ -0,0 +1,199 @@
+// In-page notifications that never block the map: a stack of toasts for
+// messages and a modal dialog for questions. Both return straight away, so
+// geolocation and replays keep moving the player while they are shown.
+import type { NoticeSeverity } from "./gameWorld.ts";
+
+export interface ToastQueueOptions {
+  duration: number; // Milliseconds a toast stays up; errors wait for a click
+  maxVisible: number; // Further toasts wait until one is dismissed
+}
+
+interface Toast {
+  key: string; // Repeats of the same message share a toast
+  message: string;
+  severity: NoticeSeverity;
+  count: number;
+  element?: HTMLElement;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+export class ToastQueue {
+  private readonly container: HTMLElement;
+  private readonly options: ToastQueueOptions;
+  private readonly visible: Toast[] = [];
+  private readonly waiting: Toast[] = [];
+
+  constructor(container: HTMLElement, options: ToastQueueOptions) {
+    this.container = container;
+    this.options = options;
+  }
+
+  show(message: string, severity: NoticeSeverity = "info") {
+    const key = `${severity}:${message}`;
+
+    // Step 1: a repeat just bumps the count on the toast already there
+    const existing = this.visible.find((toast) => toast.key === key) ??
+      this.waiting.find((toast) => toast.key === key);
+    if (existing) {
+      existing.count++;
+      this.render(existing);
+      this.startTimer(existing);
+      return;
+    }
+
+    // Step 2: otherwise queue it, showing it now if there is room
+    this.waiting.push({ key, message, severity, count: 1 });
+    this.showWaiting();
+  }
+
+  dismiss(toast: Toast) {
+    clearTimeout(toast.timer);
+    toast.element?.remove();
+    const index = this.visible.indexOf(toast);
+    if (index !== -1) {
+      this.visible.splice(index, 1);
+    }
+    this.showWaiting();
+  }
+
+  private showWaiting() {
+    while (
+      this.visible.length < this.options.maxVisible && this.waiting.length > 0
+    ) {
+      const toast = this.waiting.shift()!;
+      toast.element = document.createElement("div");
+      toast.element.className = `toast toast-${toast.severity}`;
+      toast.element.setAttribute(
+        "role",
+        toast.severity === "error" ? "alert" : "status",
+      );
+      toast.element.addEventListener("click", () => this.dismiss(toast));
+      this.container.appendChild(toast.element);
+      this.visible.push(toast);
+      this.render(toast);
+      this.startTimer(toast);
+    }
+  }
+
+  private render(toast: Toast) {
+    if (!toast.element) {
+      return; // Still waiting; it shows its count once it appears
+    }
+    toast.element.textContent = toast.message;
+    if (toast.count > 1) {
+      const count = document.createElement("span");
+      count.className = "toast-count";
+      count.textContent = `×${toast.count}`;
+      toast.element.appendChild(count);
+    }
+  }
+
+  private startTimer(toast: Toast) {
+    clearTimeout(toast.timer);
+    if (toast.element && toast.severity !== "error") {
+      toast.timer = setTimeout(
+        () => this.dismiss(toast),
+        this.options.duration,
+      );
+    }
+  }
+}
+
+export interface DialogOptions {
+  title?: string;
+  message: string;
+  confirmLabel?: string;
+  cancelLabel?: string | null; // null leaves only the confirm button
+}
+
+export interface PromptOptions extends DialogOptions {
+  value?: string;
+  readOnly?: boolean; // For showing text to copy rather than asking for it
+}
+
+// Questions for the player, one at a time, in a <dialog> element
+export class ModalDialog {
+  private readonly dialog: HTMLDialogElement;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(dialog: HTMLDialogElement) {
+    this.dialog = dialog;
+  }
+
+  // Resolves true if the player confirmed
+  async confirm(options: DialogOptions): Promise<boolean> {
+    return (await this.open(options)) !== null;
+  }
+
+  // Resolves to the text entered, or null if the player cancelled
+  prompt(options: PromptOptions): Promise<string | null> {
+    return this.open(options, options.value ?? "", options.readOnly);
+  }
+
+  private open(
+    options: DialogOptions,
+    value?: string,
+    readOnly = false,
+  ): Promise<string | null> {
+    const result = this.queue.then(() => this.show(options, value, readOnly));
+    this.queue = result;
+    return result;
+  }
+
+  private show(
+    options: DialogOptions,
+    value: string | undefined,
+    readOnly: boolean,
+  ): Promise<string | null> {
+    const form = document.createElement("form");
+    form.method = "dialog";
+
+    if (options.title) {
+      const title = document.createElement("h2");
+      title.textContent = options.title;
+      form.appendChild(title);
+    }
+    const message = document.createElement("p");
+    message.className = "dialog-message";
+    message.textContent = options.message;
+    form.appendChild(message);
+
+    let input: HTMLInputElement | undefined;
+    if (value !== undefined) {
+      input = document.createElement("input");
+      input.value = value;
+      input.readOnly = readOnly;
+      form.appendChild(input);
+    }
+
+    // Confirm comes first so Enter in the text field picks it
+    const buttons = document.createElement("menu");
+    buttons.appendChild(this.button(options.confirmLabel ?? "OK", "confirm"));
+    if (options.cancelLabel !== null) {
+      buttons.appendChild(
+        this.button(options.cancelLabel ?? "Cancel", "cancel"),
+      );
+    }
+    form.appendChild(buttons);
+
+    this.dialog.replaceChildren(form);
+    this.dialog.returnValue = "";
+    this.dialog.showModal();
+    input?.select();
+
+    return new Promise((resolve) => {
+      // Escape closes the dialog without a return value, like cancel
+      this.dialog.addEventListener("close", () => {
+        const confirmed = this.dialog.returnValue === "confirm";
+        resolve(confirmed ? input?.value ?? "" : null);
+      }, { once: true });
+    });
+  }
+
+  private button(label: string, value: string): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.value = value;
+    button.textContent = label;
+    return button;
+  }
+}
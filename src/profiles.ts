@@ -0,0 +1,286 @@
+// Named player profiles, each with its own save slot, settings and stats.
+// The profile list lives under one storage key. Saves are kept by GameStore
+// under the profile's id; older ones may still sit in local storage.
+import { distanceWalked, GameState, GameWorld } from "./gameWorld.ts";
+import type { WorldSettings } from "./worldSettings.ts";
+
+const PROFILES_KEY = "profiles";
+
+// Where saves were kept before there were profiles
+const LEGACY_SAVE_KEY = "gameState";
+
+// Where each profile's save was kept before saves moved to GameStore
+function localSaveKey(profileId: string): string {
+  return `gameState:${profileId}`;
+}
+
+const DEFAULT_PROFILE_ID = "default";
+const DEFAULT_PROFILE_NAME = "Player 1";
+
+export interface ProfileSettings {
+  replaySpeed: number; // Metres per second for simulated routes
+  resumeGeolocation: boolean; // Turn GPS tracking back on when switching in
+  showGrid: boolean; // Draw the cell grid and cache states over the map
+  showExploration: boolean; // Fog unexplored cells and heat visited ones
+  world: WorldSettings; // Which world the profile's game is played in
+  syncServer: string; // Multiplayer server address; "" to play alone
+}
+
+// Summary of a profile's save, kept here so the picker needn't parse saves
+export interface ProfileStats {
+  coinsHeld: number;
+  stepsTaken: number;
+  metersWalked: number;
+  cellsDiscovered: number;
+}
+
+const NO_STATS: ProfileStats = {
+  coinsHeld: 0,
+  stepsTaken: 0,
+  metersWalked: 0,
+  cellsDiscovered: 0,
+};
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: number;
+  lastPlayedAt: number;
+  settings: ProfileSettings;
+  stats: ProfileStats;
+}
+
+interface ProfileIndex {
+  activeId: string;
+  profiles: Profile[];
+}
+
+export function summarizeGameState(gameState: GameState): ProfileStats {
+  return {
+    coinsHeld: gameState.playerCoins.length,
+    stepsTaken: gameState.movementHistory.length,
+    metersWalked: distanceWalked(gameState.movementHistory),
+    cellsDiscovered: gameState.discoveredCells.length,
+  };
+}
+
+// The same summary read off a game being played, without walking its route
+export function summarizeWorld(world: GameWorld): ProfileStats {
+  return {
+    coinsHeld: world.getPlayerCoins().length,
+    stepsTaken: world.getMovementHistory().length,
+    metersWalked: world.getMetersWalked(),
+    cellsDiscovered: world.getDiscoveredCells().size,
+  };
+}
+
+// Every tab shares the profile list, so each change re-reads it from
+// storage first instead of writing back a stale copy. Which profile is
+// being played is per tab; the stored one is only where new tabs start.
+export class ProfileStore {
+  private readonly storage: Storage;
+  private readonly defaultSettings: ProfileSettings;
+  private index: ProfileIndex;
+  private activeId: string;
+
+  constructor(storage: Storage, defaultSettings: ProfileSettings) {
+    this.storage = storage;
+    this.defaultSettings = defaultSettings;
+    this.index = this.readIndex();
+    this.activeId = this.index.activeId;
+  }
+
+  isProfileListKey(key: string | null): boolean {
+    return key === PROFILES_KEY;
+  }
+
+  list(): readonly Profile[] {
+    return this.index.profiles;
+  }
+
+  getActive(): Profile {
+    return this.find(this.activeId)!;
+  }
+
+  find(profileId: string): Profile | undefined {
+    return this.index.profiles.find((profile) => profile.id === profileId);
+  }
+
+  // Pick up changes another tab made; returns false if this tab's profile
+  // was deleted there and a different one is now active
+  reload(): boolean {
+    this.index = this.readIndex();
+    if (this.find(this.activeId)) {
+      return true;
+    }
+    this.activeId = this.index.activeId;
+    return false;
+  }
+
+  create(name: string): Profile {
+    const now = Date.now();
+    const profile: Profile = {
+      id: `profile-${now.toString(36)}-${
+        Math.floor(Math.random() * 1e6).toString(36)
+      }`,
+      name,
+      createdAt: now,
+      lastPlayedAt: now,
+      settings: { ...this.defaultSettings },
+      stats: { ...NO_STATS },
+    };
+    this.update((index) => index.profiles.push(profile));
+    return profile;
+  }
+
+  // Copy a profile's settings and stats under a new name; the caller
+  // copies the save itself
+  duplicate(profileId: string, name: string): Profile | undefined {
+    const source = this.find(profileId);
+    if (!source) {
+      return undefined;
+    }
+
+    const copy = this.create(name);
+    this.updateProfile(copy.id, (profile) => {
+      profile.settings = { ...source.settings };
+      profile.stats = { ...source.stats };
+    });
+    return this.find(copy.id);
+  }
+
+  rename(profileId: string, name: string) {
+    this.updateProfile(profileId, (profile) => profile.name = name);
+  }
+
+  // The last remaining profile cannot be deleted
+  delete(profileId: string): boolean {
+    this.index = this.readIndex();
+    if (this.index.profiles.length <= 1 || !this.find(profileId)) {
+      return false;
+    }
+
+    this.storage.removeItem(localSaveKey(profileId));
+    this.update((index) => {
+      index.profiles = index.profiles.filter((profile) =>
+        profile.id !== profileId
+      );
+      if (index.activeId === profileId) {
+        index.activeId = index.profiles[0].id;
+      }
+    });
+    if (this.activeId === profileId) {
+      this.activeId = this.index.activeId;
+    }
+    return true;
+  }
+
+  setActive(profileId: string) {
+    this.updateProfile(profileId, (profile, index) => {
+      index.activeId = profileId;
+      profile.lastPlayedAt = Date.now();
+      this.activeId = profileId;
+    });
+  }
+
+  // A save still kept in local storage; it stays there until removed
+  readLocalSave(profileId: string): string | null {
+    return this.storage.getItem(localSaveKey(profileId));
+  }
+
+  removeLocalSave(profileId: string) {
+    this.storage.removeItem(localSaveKey(profileId));
+  }
+
+  updateStats(profileId: string, stats: ProfileStats) {
+    this.updateProfile(profileId, (profile) => {
+      profile.stats = { ...stats };
+      profile.lastPlayedAt = Date.now();
+    });
+  }
+
+  clearStats(profileId: string) {
+    this.updateProfile(profileId, (profile) => {
+      profile.stats = { ...NO_STATS };
+    });
+  }
+
+  updateSettings(profileId: string, settings: Partial<ProfileSettings>) {
+    this.updateProfile(profileId, (profile) => {
+      profile.settings = { ...profile.settings, ...settings };
+    });
+  }
+
+  private update(change: (index: ProfileIndex) => void) {
+    this.index = this.readIndex();
+    change(this.index);
+    this.storage.setItem(PROFILES_KEY, JSON.stringify(this.index));
+  }
+
+  private updateProfile(
+    profileId: string,
+    change: (profile: Profile, index: ProfileIndex) => void,
+  ) {
+    this.update((index) => {
+      const profile = index.profiles.find((profile) =>
+        profile.id === profileId
+      );
+      if (profile) {
+        change(profile, index);
+      }
+    });
+  }
+
+  private readIndex(): ProfileIndex {
+    const stored = this.storage.getItem(PROFILES_KEY);
+    if (stored !== null) {
+      try {
+        const index: ProfileIndex = JSON.parse(stored);
+        if (
+          Array.isArray(index.profiles) && index.profiles.length > 0 &&
+          index.profiles.some((profile) => profile.id === index.activeId)
+        ) {
+          // Fill in settings and stats added since the profile was created
+          index.profiles.forEach((profile) => {
+            profile.settings = { ...this.defaultSettings, ...profile.settings };
+            profile.stats = { ...NO_STATS, ...profile.stats };
+          });
+          return index;
+        }
+      } catch {
+        // Fall through and rebuild the index below
+      }
+      console.error("Profile list was unreadable and has been rebuilt.");
+    }
+
+    return this.createDefaultIndex();
+  }
+
+  // First run with profiles: adopt any single-slot save as the default
+  private createDefaultIndex(): ProfileIndex {
+    const now = Date.now();
+    const index: ProfileIndex = {
+      activeId: DEFAULT_PROFILE_ID,
+      profiles: [{
+        id: DEFAULT_PROFILE_ID,
+        name: DEFAULT_PROFILE_NAME,
+        createdAt: now,
+        lastPlayedAt: now,
+        settings: { ...this.defaultSettings },
+        stats: { ...NO_STATS },
+      }],
+    };
+
+    const legacySave = this.storage.getItem(LEGACY_SAVE_KEY);
+    if (
+      legacySave !== null &&
+      this.storage.getItem(localSaveKey(DEFAULT_PROFILE_ID)) === null
+    ) {
+      this.storage.setItem(localSaveKey(DEFAULT_PROFILE_ID), legacySave);
+    }
+    this.storage.removeItem(LEGACY_SAVE_KEY);
+
+    this.storage.setItem(PROFILES_KEY, JSON.stringify(index));
+    return index;
+  }
+}
@@ -0,0 +1,338 @@
+// Achievements and daily quests. Both are goals on running totals that
+// GameWorld feeds from the player's actions: achievements count over the
+// whole game and stay unlocked, daily quests count from the start of the
+// day and are picked by luck, so everyone gets the same ones on a day.
+import luck from "./luck.ts";
+import type { Momento } from "./gameWorld.ts";
+
+export type QuestMetric =
+  | "metersWalked"
+  | "cellsVisited" // Distinct cells stepped into
+  | "coinsCollected"
+  | "coinsDeposited"
+  | "coinsReturned" // Deposited back into the cache they came from
+  | "rareCoinsCollected"; // Rare or legendary
+
+export const QUEST_METRICS: readonly QuestMetric[] = [
+  "metersWalked",
+  "cellsVisited",
+  "coinsCollected",
+  "coinsDeposited",
+  "coinsReturned",
+  "rareCoinsCollected",
+];
+
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  metric: QuestMetric;
+  goal: number;
+}
+
+export const ACHIEVEMENTS: readonly Achievement[] = [
+  {
+    id: "first-coin",
+    title: "First Find",
+    description: "Collect your first coin",
+    metric: "coinsCollected",
+    goal: 1,
+  },
+  {
+    id: "collector",
+    title: "Collector",
+    description: "Collect 25 coins",
+    metric: "coinsCollected",
+    goal: 25,
+  },
+  {
+    id: "generous",
+    title: "Generous",
+    description: "Deposit 10 coins",
+    metric: "coinsDeposited",
+    goal: 10,
+  },
+  {
+    id: "homecoming",
+    title: "Homecoming",
+    description: "Return a coin to the cache it came from",
+    metric: "coinsReturned",
+    goal: 1,
+  },
+  {
+    id: "rare-find",
+    title: "Rare Find",
+    description: "Collect a rare or legendary coin",
+    metric: "rareCoinsCollected",
+    goal: 1,
+  },
+  {
+    id: "explorer",
+    title: "Explorer",
+    description: "Visit 50 distinct cells",
+    metric: "cellsVisited",
+    goal: 50,
+  },
+  {
+    id: "walker",
+    title: "Going the Distance",
+    description: "Walk 1 km",
+    metric: "metersWalked",
+    goal: 1000,
+  },
+  {
+    id: "marathon",
+    title: "Marathon",
+    description: "Walk 10 km",
+    metric: "metersWalked",
+    goal: 10000,
+  },
+];
+
+// Daily quests are drawn from these, with a goal between min and max
+const QUEST_TEMPLATES: {
+  metric: QuestMetric;
+  min: number;
+  max: number;
+  describe: (goal: number) => string;
+}[] = [
+  {
+    metric: "metersWalked",
+    min: 200,
+    max: 1500,
+    describe: (goal) => `Walk ${goal} m`,
+  },
+  {
+    metric: "cellsVisited",
+    min: 3,
+    max: 12,
+    describe: (goal) => `Step into ${goal} cells you've never visited`,
+  },
+  {
+    metric: "coinsCollected",
+    min: 3,
+    max: 15,
+    describe: (goal) => `Collect ${goal} coins`,
+  },
+  {
+    metric: "coinsDeposited",
+    min: 2,
+    max: 10,
+    describe: (goal) => `Deposit ${goal} coins`,
+  },
+  {
+    metric: "coinsReturned",
+    min: 1,
+    max: 2,
+    describe: (goal) =>
+      `Return ${goal} ${goal === 1 ? "coin" : "coins"} to where they came from`,
+  },
+];
+
+export interface DailyQuest {
+  id: string;
+  day: number;
+  metric: QuestMetric;
+  goal: number;
+  description: string;
+}
+
+export interface AchievementProgress {
+  achievement: Achievement;
+  progress: number;
+  unlockedAt?: number;
+}
+
+export interface QuestProgress {
+  quest: DailyQuest;
+  progress: number;
+  completed: boolean;
+}
+
+export interface QuestLogOptions {
+  dayLength: number; // Milliseconds before a new set of daily quests
+  dailyQuestCount: number; // At most one per template
+}
+
+type MetricTotals = { [metric in QuestMetric]?: number };
+
+export interface QuestLogState {
+  totals: MetricTotals; // Over the whole game
+  unlocked: { [achievementId: string]: number }; // When each was unlocked
+  day: number; // Which day `daily` counts
+  daily: MetricTotals;
+  completedQuests: string[]; // Ids of today's finished quests
+}
+
+// What one update newly achieved, for notifications
+export interface QuestUpdate {
+  unlocked: Achievement[];
+  completed: DailyQuest[];
+}
+
+// The same quests for everyone on a given day, each on a different metric
+export function dailyQuests(day: number, count: number): DailyQuest[] {
+  const templates = QUEST_TEMPLATES.slice();
+  const quests: DailyQuest[] = [];
+  for (let n = 0; n < count && templates.length > 0; n++) {
+    const pick = Math.floor(luck(`quest,${day},${n}`) * templates.length);
+    const [template] = templates.splice(pick, 1);
+    const goal = template.min + Math.floor(
+      luck(`quest,${day},${n},goal`) * (template.max - template.min + 1),
+    );
+    quests.push({
+      id: `${day}-${template.metric}`,
+      day,
+      metric: template.metric,
+      goal,
+      description: template.describe(goal),
+    });
+  }
+  return quests;
+}
+
+// Two tabs' logs combined: the earliest unlock of each achievement, and
+// for each count what `base`, the log both started from, had plus what
+// each tab added since. Without a base the higher count of the two is kept.
+export function mergeQuestLogs(
+  base: QuestLogState | undefined,
+  ours: QuestLogState,
+  theirs: QuestLogState,
+): QuestLogState {
+  const later = ours.day >= theirs.day ? ours : theirs;
+  const sameDay = ours.day === theirs.day;
+  const unlocked = { ...theirs.unlocked };
+  for (const id in ours.unlocked) {
+    unlocked[id] = Math.min(ours.unlocked[id], unlocked[id] ?? Infinity);
+  }
+
+  // Only counts for the day being kept are added up
+  const dailyFor = (log: QuestLogState | undefined) =>
+    log?.day === later.day ? log.daily : {};
+
+  return {
+    totals: mergeTotals(base?.totals, ours.totals, theirs.totals),
+    unlocked,
+    day: later.day,
+    daily: sameDay
+      ? mergeTotals(base && dailyFor(base), ours.daily, theirs.daily)
+      : { ...later.daily },
+    completedQuests: sameDay
+      ? Array.from(
+        new Set([...ours.completedQuests, ...theirs.completedQuests]),
+      )
+      : later.completedQuests.slice(),
+  };
+}
+
+function mergeTotals(
+  base: MetricTotals | undefined,
+  a: MetricTotals,
+  b: MetricTotals,
+): MetricTotals {
+  const totals: MetricTotals = {};
+  QUEST_METRICS.forEach((metric) => {
+    if (a[metric] === undefined && b[metric] === undefined) {
+      return;
+    }
+    const ours = a[metric] ?? 0;
+    const theirs = b[metric] ?? 0;
+    totals[metric] = base
+      ? Math.max((ours + theirs) - (base[metric] ?? 0), 0)
+      : Math.max(ours, theirs);
+  });
+  return totals;
+}
+
+export class QuestLog implements Momento<QuestLogState> {
+  readonly dayLength: number;
+  readonly dailyQuestCount: number;
+  private state: QuestLogState = QuestLog.emptyState();
+
+  constructor(options: QuestLogOptions) {
+    this.dayLength = options.dayLength;
+    this.dailyQuestCount = options.dailyQuestCount;
+  }
+
+  static emptyState(): QuestLogState {
+    return { totals: {}, unlocked: {}, day: 0, daily: {}, completedQuests: [] };
+  }
+
+  // Count progress on a metric; undone actions count back down. Anything
+  // already unlocked or completed stays that way.
+  record(metric: QuestMetric, amount: number, now: number): QuestUpdate {
+    this.startDay(now);
+    const { totals, daily } = this.state;
+    totals[metric] = Math.max((totals[metric] ?? 0) + amount, 0);
+    daily[metric] = Math.max((daily[metric] ?? 0) + amount, 0);
+    return this.check(now);
+  }
+
+  // Unlock whatever the totals have reached, such as after a load
+  check(now: number): QuestUpdate {
+    this.startDay(now);
+    const update: QuestUpdate = { unlocked: [], completed: [] };
+    this.achievements().forEach(({ achievement, progress, unlockedAt }) => {
+      if (unlockedAt === undefined && progress >= achievement.goal) {
+        this.state.unlocked[achievement.id] = now;
+        update.unlocked.push(achievement);
+      }
+    });
+    this.quests(now).forEach(({ quest, progress, completed }) => {
+      if (!completed && progress >= quest.goal) {
+        this.state.completedQuests.push(quest.id);
+        update.completed.push(quest);
+      }
+    });
+    return update;
+  }
+
+  achievements(): AchievementProgress[] {
+    return ACHIEVEMENTS.map((achievement) => ({
+      achievement,
+      progress: this.state.totals[achievement.metric] ?? 0,
+      unlockedAt: this.state.unlocked[achievement.id],
+    }));
+  }
+
+  quests(now: number): QuestProgress[] {
+    const day = this.dayAt(now);
+    const today = day === this.state.day;
+    return dailyQuests(day, this.dailyQuestCount).map((quest) => ({
+      quest,
+      progress: today ? this.state.daily[quest.metric] ?? 0 : 0,
+      completed: today && this.state.completedQuests.indexOf(quest.id) >= 0,
+    }));
+  }
+
+  // When today's quests make way for tomorrow's
+  nextDayAt(now: number): number {
+    return (this.dayAt(now) + 1) * this.dayLength;
+  }
+
+  clear() {
+    this.state = QuestLog.emptyState();
+  }
+
+  toMomento(): QuestLogState {
+    return JSON.parse(JSON.stringify(this.state));
+  }
+
+  fromMomento(momento: QuestLogState) {
+    this.state = JSON.parse(JSON.stringify(momento));
+  }
+
+  private dayAt(time: number): number {
+    return Math.floor(time / this.dayLength);
+  }
+
+  // Daily counts start again from zero on a new day
+  private startDay(now: number) {
+    const day = this.dayAt(now);
+    if (day !== this.state.day) {
+      this.state.day = day;
+      this.state.daily = {};
+      this.state.completedQuests = [];
+    }
+  }
+}
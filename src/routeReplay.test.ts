@@ -0,0 +1,44 @@
+/// <reference lib="deno.ns" />
+import assert from "node:assert/strict";
+import { parseRoute, RouteFormatError } from "./routeReplay.ts";
+
+function lineString(coordinates: unknown): string {
+  return JSON.stringify({
+    type: "Feature",
+    geometry: { type: "LineString", coordinates },
+  });
+}
+
+Deno.test("GeoJSON lines are read as [lng, lat] pairs in order", () => {
+  const text = JSON.stringify({
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "LineString", coordinates: [[2, 1]] },
+      },
+      {
+        type: "Feature",
+        geometry: { type: "MultiLineString", coordinates: [[[4, 3], [6, 5]]] },
+      },
+    ],
+  });
+  assert.deepEqual(parseRoute(text), [
+    { lat: 1, lng: 2 },
+    { lat: 3, lng: 4 },
+    { lat: 5, lng: 6 },
+  ]);
+});
+
+Deno.test("GeoJSON out of shape is a RouteFormatError", () => {
+  [
+    "{",
+    lineString("not a list"),
+    lineString([null]),
+    lineString([["1", "2"]]),
+    lineString([]),
+    JSON.stringify({ type: "MultiLineString", coordinates: 3 }),
+    JSON.stringify({ type: "FeatureCollection", features: {} }),
+    JSON.stringify({ type: "FeatureCollection", features: [null] }),
+  ].forEach((text) => assert.throws(() => parseRoute(text), RouteFormatError));
+});
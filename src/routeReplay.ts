@@ -0,0 +1,229 @@
+// Replays a recorded GPX or GeoJSON track as if the player were walking it.
+// Positions are interpolated along the track at a walking speed and handed
+// to the same update pipeline real geolocation fixes go through.
+import { distanceInMeters, Location } from "./gameWorld.ts";
+import type { LocationProvider, LocationSink } from "./locationProviders.ts";
+
+// How often a replay reports a new position, in milliseconds
+const REPLAY_TICK_INTERVAL = 250;
+
+// Fast-forward doubles the playback rate up to this, then wraps back to 1x
+const MAX_PLAYBACK_RATE = 16;
+
+// Thrown when a file holds no usable track
+export class RouteFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RouteFormatError";
+  }
+}
+
+function parseGPX(text: string): Location[] {
+  const document = new DOMParser().parseFromString(text, "application/xml");
+  if (document.querySelector("parsererror")) {
+    throw new RouteFormatError("Route file is not valid GPX");
+  }
+
+  // Prefer the recorded track; fall back to a planned route
+  let points = document.querySelectorAll("trkpt");
+  if (points.length === 0) {
+    points = document.querySelectorAll("rtept");
+  }
+
+  return Array.from(points).map((point) => ({
+    lat: Number(point.getAttribute("lat")),
+    lng: Number(point.getAttribute("lon")),
+  }));
+}
+
+// GeoJSON positions are [lng, lat]; collect every line in the file in order
+function parseGeoJSON(text: string): Location[] {
+  let geojson;
+  try {
+    geojson = JSON.parse(text);
+  } catch {
+    throw new RouteFormatError("Route file is not valid GeoJSON");
+  }
+
+  const route: Location[] = [];
+  const addLine = (coordinates: unknown) => {
+    if (!Array.isArray(coordinates)) {
+      throw new RouteFormatError("Route line has no list of coordinates");
+    }
+    coordinates.forEach((position) => {
+      if (
+        !Array.isArray(position) || typeof position[0] !== "number" ||
+        typeof position[1] !== "number"
+      ) {
+        throw new RouteFormatError("Route has points without coordinates");
+      }
+      const [lng, lat] = position;
+      route.push({ lat, lng });
+    });
+  };
+  const addGeometry = (geometry: { type?: string; coordinates?: unknown }) => {
+    if (geometry?.type === "LineString") {
+      addLine(geometry.coordinates);
+    } else if (geometry?.type === "MultiLineString") {
+      if (!Array.isArray(geometry.coordinates)) {
+        throw new RouteFormatError("Route line has no list of coordinates");
+      }
+      geometry.coordinates.forEach(addLine);
+    }
+  };
+
+  if (geojson?.type === "FeatureCollection") {
+    if (!Array.isArray(geojson.features)) {
+      throw new RouteFormatError("Route feature collection has no features");
+    }
+    geojson.features.forEach((feature: { geometry?: object } | null) =>
+      addGeometry(feature?.geometry ?? {})
+    );
+  } else if (geojson?.type === "Feature") {
+    addGeometry(geojson.geometry);
+  } else {
+    addGeometry(geojson);
+  }
+  return route;
+}
+
+// Read a GPX or GeoJSON file into the list of positions it describes
+export function parseRoute(text: string): Location[] {
+  const route = text.trim().startsWith("<")
+    ? parseGPX(text)
+    : parseGeoJSON(text);
+
+  if (route.some(({ lat, lng }) => !isFinite(lat) || !isFinite(lng))) {
+    throw new RouteFormatError("Route has points without coordinates");
+  }
+  if (route.length === 0) {
+    throw new RouteFormatError("Route file has no track or line in it");
+  }
+  return route;
+}
+
+export interface RouteReplayOptions {
+  speed: number; // Walking speed in metres per second at 1x
+  loop: boolean;
+  onFinish?: () => void;
+}
+
+export class RouteReplay implements LocationProvider {
+  readonly name = "replay";
+  readonly route: Location[];
+  speed: number;
+  loop: boolean;
+  playbackRate = 1;
+
+  private onPosition: LocationSink | undefined;
+  private readonly onFinish?: () => void;
+
+  // distances[n] is how far along the route point n lies
+  private readonly distances: number[] = [0];
+  private travelled = 0;
+  private timer: ReturnType<typeof setInterval> | undefined;
+  private lastTick = 0;
+
+  constructor(route: Location[], options: RouteReplayOptions) {
+    this.route = route;
+    this.speed = options.speed;
+    this.loop = options.loop;
+    this.onFinish = options.onFinish;
+
+    for (let index = 1; index < route.length; index++) {
+      this.distances.push(
+        this.distances[index - 1] +
+          distanceInMeters(route[index - 1], route[index]),
+      );
+    }
+  }
+
+  get totalDistance(): number {
+    return this.distances[this.distances.length - 1];
+  }
+
+  // Begin replaying from the start of the route into the given sink
+  start(onLocation: LocationSink) {
+    this.stop();
+    this.onPosition = onLocation;
+    this.play();
+  }
+
+  isPlaying(): boolean {
+    return this.timer !== undefined;
+  }
+
+  play() {
+    if (this.isPlaying() || !this.onPosition) {
+      return;
+    }
+    if (this.travelled >= this.totalDistance) {
+      this.travelled = 0; // Start over once a finished replay is played again
+    }
+
+    this.lastTick = Date.now();
+    this.timer = setInterval(() => this.tick(), REPLAY_TICK_INTERVAL);
+    this.onPosition?.(this.positionAt(this.travelled));
+  }
+
+  pause() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Double the playback rate; returns the new rate
+  fastForward(): number {
+    this.playbackRate = this.playbackRate >= MAX_PLAYBACK_RATE
+      ? 1
+      : this.playbackRate * 2;
+    return this.playbackRate;
+  }
+
+  stop() {
+    this.pause();
+    this.travelled = 0;
+  }
+
+  private tick() {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastTick) / 1000;
+    this.lastTick = now;
+    this.travelled += elapsedSeconds * this.speed * this.playbackRate;
+
+    if (this.travelled >= this.totalDistance) {
+      if (this.loop && this.totalDistance > 0) {
+        this.travelled %= this.totalDistance;
+      } else {
+        this.travelled = this.totalDistance;
+        this.pause();
+        this.onPosition?.(this.positionAt(this.travelled));
+        this.onFinish?.();
+        return;
+      }
+    }
+
+    this.onPosition?.(this.positionAt(this.travelled));
+  }
+
+  // Interpolate the point a given distance along the route
+  private positionAt(distance: number): Location {
+    let index = 1;
+    while (index < this.route.length && this.distances[index] < distance) {
+      index++;
+    }
+    if (index >= this.route.length) {
+      return this.route[this.route.length - 1];
+    }
+
+    const from = this.route[index - 1];
+    const to = this.route[index];
+    const segment = this.distances[index] - this.distances[index - 1];
+    const fraction = segment > 0
+      ? (distance - this.distances[index - 1]) / segment
+      : 0;
+    return {
+      lat: from.lat + (to.lat - from.lat) * fraction,
+      lng: from.lng + (to.lng - from.lng) * fraction,
+    };
+  }
+}
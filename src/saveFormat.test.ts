@@ -0,0 +1,167 @@
+/// <reference lib="deno.ns" />
+import assert from "node:assert/strict";
+import {
+  CURRENT_SAVE_VERSION,
+  parseSave,
+  SaveFormatError,
+  serializeSave,
+} from "./saveFormat.ts";
+import { gradeCoin } from "./coinRarity.ts";
+import { setLuckSeed } from "./luck.ts";
+import { DEFAULT_WORLD_SETTINGS } from "./worldSettings.ts";
+import type { GameState } from "./gameWorld.ts";
+
+// A save from before saves were versioned: the bare GameState of the time
+const UNVERSIONED_SAVE = {
+  playerCoins: 2,
+  playerPosition: { lat: 36.9895, lng: -122.0628 },
+  cacheLocations: [{
+    id: "cache-0",
+    cell: { i: 36989, j: -122063 },
+    coins: [
+      { id: "36989:-122063#0", originatingCacheId: "cache-0" },
+      { id: "cache-0-coin-1", originatingCacheId: "cache-0" },
+    ],
+  }],
+  movementHistory: [
+    { lat: 36.9885, lng: -122.0628 },
+    { lat: 36.9895, lng: -122.0628 },
+  ],
+};
+
+function currentState(): GameState {
+  return parseSave(JSON.stringify(UNVERSIONED_SAVE)).state;
+}
+
+Deno.test("an unversioned save is migrated all the way up", () => {
+  const { version, savedAt, state } = parseSave(
+    JSON.stringify(UNVERSIONED_SAVE),
+  );
+
+  assert.equal(version, CURRENT_SAVE_VERSION);
+  assert.equal(savedAt, 0);
+  assert.equal(state.cacheLocations[0].id, "36989,-122063");
+  assert.deepEqual(state.cacheLocations[0].coins, [{
+    id: "36989:-122063#0",
+    originatingCacheId: "36989,-122063",
+    trail: [],
+    ...gradeCoin("36989:-122063#0"),
+  }, {
+    id: "cache-0-coin-1",
+    originatingCacheId: "36989,-122063",
+    trail: [],
+    ...gradeCoin("cache-0-coin-1"),
+  }]);
+  assert.equal(state.cacheLocations[0].refilledAt, 0);
+  assert.deepEqual(state.geocacheMementos, {});
+  assert.deepEqual(state.commandHistory, { undo: [], redo: [] });
+  assert.deepEqual(state.worldSettings, DEFAULT_WORLD_SETTINGS);
+  assert.ok((state.quests.totals.metersWalked ?? 0) > 0);
+  assert.equal(state.quests.totals.cellsVisited, 2); // Worked out from the route
+});
+
+Deno.test("an unversioned coin count becomes coins in the wallet", () => {
+  const { state } = parseSave(JSON.stringify(UNVERSIONED_SAVE));
+
+  assert.deepEqual(state.playerCoins.map((coin) => coin.id), [
+    "legacy-coin-0",
+    "legacy-coin-1",
+  ]);
+  state.playerCoins.forEach((coin) => {
+    assert.equal(coin.originatingCacheId, "legacy");
+    assert.deepEqual(coin.trail, []);
+  });
+
+  const { playerCoins: _, ...noCount } = UNVERSIONED_SAVE;
+  assert.deepEqual(parseSave(JSON.stringify(noCount)).state.playerCoins, []);
+  assert.throws(
+    () => parseSave(JSON.stringify({ ...UNVERSIONED_SAVE, playerCoins: -1 })),
+    {
+      name: "SaveFormatError",
+      message: "state.playerCoins should be an array",
+    },
+  );
+});
+
+Deno.test("old saves grade their coins in the original world", () => {
+  const imported = (seed: string) => {
+    setLuckSeed(seed);
+    try {
+      return parseSave(JSON.stringify(UNVERSIONED_SAVE)).state;
+    } finally {
+      setLuckSeed("");
+    }
+  };
+
+  const original = imported(DEFAULT_WORLD_SETTINGS.seed);
+  assert.deepEqual(imported("another world"), original);
+  assert.deepEqual(
+    original.cacheLocations[0].coins.map(({ rarity, denomination }) => ({
+      rarity,
+      denomination,
+    })),
+    ["36989:-122063#0", "cache-0-coin-1"].map((id) =>
+      gradeCoin(id, DEFAULT_WORLD_SETTINGS.seed)
+    ),
+  );
+});
+
+Deno.test("a current save reads back as it was written", () => {
+  const state = currentState();
+  const envelope = parseSave(serializeSave(state, 1234));
+
+  assert.deepEqual(envelope, {
+    version: CURRENT_SAVE_VERSION,
+    savedAt: 1234,
+    state,
+  });
+});
+
+Deno.test("saves from a newer game are refused", () => {
+  const text = JSON.stringify({
+    version: CURRENT_SAVE_VERSION + 1,
+    savedAt: 0,
+    state: currentState(),
+  });
+  assert.throws(() => parseSave(text), SaveFormatError);
+});
+
+Deno.test("a save that is out of shape names the first bad field", () => {
+  const state = currentState();
+  (state.playerPosition as unknown as { lat: string }).lat = "north";
+
+  assert.throws(() => parseSave(serializeSave(state)), {
+    name: "SaveFormatError",
+    message: "state.playerPosition.lat should be a number",
+  });
+});
+
+Deno.test("text that is not JSON is a SaveFormatError", () => {
+  assert.throws(() => parseSave("{"), SaveFormatError);
+  assert.throws(() => parseSave("[]"), SaveFormatError);
+});
+
+Deno.test("corrupt items in an old save are a SaveFormatError", () => {
+  const corrupt = [
+    { cacheLocations: [null] },
+    { ...UNVERSIONED_SAVE, playerCoins: [null] },
+    { ...UNVERSIONED_SAVE, movementHistory: [null] },
+    {
+      ...UNVERSIONED_SAVE,
+      cacheLocations: [{ id: "0,0", cell: { i: 0, j: 0 }, coins: [null] }],
+    },
+  ];
+  corrupt.forEach((save) =>
+    assert.throws(() => parseSave(JSON.stringify(save)), SaveFormatError)
+  );
+});
+
+Deno.test("ids that are not cache or coin ids are refused", () => {
+  const state = currentState();
+  state.cacheLocations[0].coins[0].id = "<img src=x onerror=alert(1)>";
+
+  assert.throws(() => parseSave(serializeSave(state)), {
+    name: "SaveFormatError",
+    message: "state.cacheLocations[0].coins[0].id should be a cache or coin id",
+  });
+});
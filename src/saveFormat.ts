@@ -0,0 +1,505 @@
+// Versioned save envelope for GameState.
+// Every save is written as { version, savedAt, state }. Older saves are
+// walked forward through the migrations below, then checked field by
+// field before the game is allowed to trust them.
+import { Board, Cell } from "./board.ts";
+import {
+  cacheIdForCell,
+  distanceWalked,
+  GameState,
+  Location,
+} from "./gameWorld.ts";
+import { COIN_RARITIES, CoinRarity, gradeCoin } from "./coinRarity.ts";
+import { QUEST_METRICS, QuestLog, QuestMetric } from "./quests.ts";
+import {
+  DEFAULT_WORLD_SETTINGS,
+  validateWorldSettings,
+  WorldSettingsError,
+} from "./worldSettings.ts";
+
+export const CURRENT_SAVE_VERSION = 8;
+
+export interface SaveEnvelope {
+  version: number;
+  savedAt: number;
+  state: GameState;
+}
+
+// Thrown for any save that cannot be read, migrated or validated
+export class SaveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaveFormatError";
+  }
+}
+
+type SaveData = { [key: string]: unknown };
+
+// migrations[n] turns a version n state into a version n + 1 state.
+// Anything out of shape is passed along untouched for validation to report.
+const migrations: { [version: number]: (state: SaveData) => SaveData } = {
+  // Version 0 is the bare GameState written before saves were versioned
+  0: (state) => {
+    // Caches were numbered "cache-N" rather than named by their cell
+    const cacheIds = new Map<unknown, string>();
+    if (Array.isArray(state.cacheLocations)) {
+      state.cacheLocations.forEach((cache) => {
+        if (isObject(cache) && isCell(cache.cell)) {
+          cacheIds.set(cache.id, cacheIdForCell(cache.cell));
+        }
+      });
+    }
+    const migrateCoin = (coin: unknown) =>
+      isObject(coin)
+        ? {
+          ...coin,
+          originatingCacheId: cacheIds.get(coin.originatingCacheId) ??
+            coin.originatingCacheId,
+          trail: Array.isArray(coin.trail) ? coin.trail : [],
+        }
+        : coin;
+
+    return {
+      ...state,
+      playerCoins: Array.isArray(state.playerCoins)
+        ? state.playerCoins.map(migrateCoin)
+        : legacyCoins(state.playerCoins),
+      cacheLocations: Array.isArray(state.cacheLocations)
+        ? state.cacheLocations.map((cache) =>
+          isObject(cache)
+            ? {
+              ...cache,
+              id: cacheIds.get(cache.id) ?? cache.id,
+              coins: Array.isArray(cache.coins)
+                ? cache.coins.map(migrateCoin)
+                : [],
+            }
+            : cache
+        )
+        : [],
+      movementHistory: Array.isArray(state.movementHistory)
+        ? state.movementHistory
+        : [],
+    };
+  },
+  // Version 2 also keeps the mementos of caches that were off screen
+  1: (state) => ({ ...state, geocacheMementos: {} }),
+  // Version 3 also keeps the undo/redo stacks
+  2: (state) => ({ ...state, commandHistory: { undo: [], redo: [] } }),
+  // Version 4 also keeps where the player has been; GameWorld works it out
+  // from movementHistory when these are empty
+  3: (state) => ({ ...state, cellVisits: {}, discoveredCells: [] }),
+  // Version 5 caches remember when they last refilled; older ones never
+  // did, so they catch up the first time they are seen
+  4: (state) => ({
+    ...state,
+    cacheLocations: Array.isArray(state.cacheLocations)
+      ? state.cacheLocations.map((cache) =>
+        isObject(cache) ? { ...cache, refilledAt: 0 } : cache
+      )
+      : state.cacheLocations,
+    geocacheMementos: isObject(state.geocacheMementos)
+      ? mapMementos(state.geocacheMementos, (geocache) => ({
+        ...geocache,
+        refilledAt: 0,
+      }))
+      : state.geocacheMementos,
+  }),
+  // Version 6 coins carry their rarity; it was always set by their ids,
+  // in the original world whatever world is being played now
+  5: (state) => {
+    const gradeCoins = (coins: unknown) =>
+      Array.isArray(coins)
+        ? coins.map((coin) =>
+          isObject(coin) && typeof coin.id === "string"
+            ? { ...coin, ...gradeCoin(coin.id, DEFAULT_WORLD_SETTINGS.seed) }
+            : coin
+        )
+        : coins;
+    return {
+      ...state,
+      playerCoins: gradeCoins(state.playerCoins),
+      cacheLocations: Array.isArray(state.cacheLocations)
+        ? state.cacheLocations.map((cache) =>
+          isObject(cache) ? { ...cache, coins: gradeCoins(cache.coins) } : cache
+        )
+        : state.cacheLocations,
+      geocacheMementos: isObject(state.geocacheMementos)
+        ? mapMementos(state.geocacheMementos, (geocache) => ({
+          ...geocache,
+          coins: gradeCoins(geocache.coins),
+        }))
+        : state.geocacheMementos,
+    };
+  },
+  // Version 7 also keeps achievement and quest progress, starting from
+  // what the route so far has already covered
+  6: (state) => ({
+    ...state,
+    quests: {
+      ...QuestLog.emptyState(),
+      totals: {
+        metersWalked: Array.isArray(state.movementHistory)
+          ? distanceWalked(state.movementHistory.filter(isLocation))
+          : 0,
+        cellsVisited: countVisitedCells(state),
+      },
+    },
+  }),
+  // Version 8 also names the world it was played in; every older save
+  // was played in the one world there was
+  7: (state) => ({
+    ...state,
+    worldSettings: {
+      ...DEFAULT_WORLD_SETTINGS,
+      start: { ...DEFAULT_WORLD_SETTINGS.start },
+    },
+  }),
+};
+
+// The inventory used to be a plain count; those coins had no identity or
+// origin, so each one is given a fresh id for the wallet to hold. A count
+// no such game could have reached is left for validation to report.
+const MAX_LEGACY_COINS = 10000;
+
+function legacyCoins(count: unknown): unknown {
+  if (count === undefined) {
+    return [];
+  }
+  if (
+    typeof count !== "number" || !Number.isInteger(count) || count < 0 ||
+    count > MAX_LEGACY_COINS
+  ) {
+    return count;
+  }
+  const coins: SaveData[] = [];
+  for (let serial = 0; serial < count; serial++) {
+    coins.push({
+      id: `legacy-coin-${serial}`,
+      originatingCacheId: "legacy",
+      trail: [],
+    });
+  }
+  return coins;
+}
+
+// Cells the player has stepped in. Saves from before version 4 kept no
+// visits, so they are worked out from the route the way GameWorld does;
+// every such save was played on the original world's grid.
+function countVisitedCells(state: SaveData): number {
+  if (isObject(state.cellVisits) && Object.keys(state.cellVisits).length > 0) {
+    return Object.keys(state.cellVisits).length;
+  }
+  if (!Array.isArray(state.movementHistory)) {
+    return 0;
+  }
+  const board = new Board(
+    DEFAULT_WORLD_SETTINGS.tileWidth,
+    DEFAULT_WORLD_SETTINGS.visibilityRadius,
+  );
+  return new Set(
+    state.movementHistory.filter(isLocation).map((point) =>
+      cacheIdForCell(board.getCellForPoint(point))
+    ),
+  ).size;
+}
+
+// Rewrite each memento that parses, leaving the rest for validation
+function mapMementos(
+  mementos: SaveData,
+  change: (geocache: SaveData) => SaveData,
+): SaveData {
+  const result: SaveData = {};
+  for (const key in mementos) {
+    result[key] = mementos[key];
+    try {
+      const geocache = JSON.parse(mementos[key] as string);
+      if (isObject(geocache)) {
+        result[key] = JSON.stringify(change(geocache));
+      }
+    } catch {
+      // Left as it was
+    }
+  }
+  return result;
+}
+
+function isObject(value: unknown): value is SaveData {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isCell(value: unknown): value is Cell {
+  return isObject(value) && typeof value.i === "number" &&
+    typeof value.j === "number";
+}
+
+function isLocation(value: unknown): value is Location {
+  return isObject(value) && typeof value.lat === "number" &&
+    typeof value.lng === "number";
+}
+
+function fail(path: string, expected: string): never {
+  throw new SaveFormatError(`${path} should be ${expected}`);
+}
+
+function checkNumber(value: unknown, path: string) {
+  if (typeof value !== "number" || !isFinite(value)) {
+    fail(path, "a number");
+  }
+}
+
+function checkString(value: unknown, path: string) {
+  if (typeof value !== "string") {
+    fail(path, "a string");
+  }
+}
+
+// Cache and coin ids are built from cell numbers and a few separators,
+// such as "369:-1220#3.1+2"; older saves used "cache-3-coin-5"
+const ID_PATTERN = /^[\w.,:#+-]{1,64}$/;
+
+function checkId(value: unknown, path: string) {
+  if (typeof value !== "string" || !ID_PATTERN.test(value)) {
+    fail(path, "a cache or coin id");
+  }
+}
+
+function checkArray(
+  value: unknown,
+  path: string,
+  checkItem: (item: unknown, path: string) => void,
+) {
+  if (!Array.isArray(value)) {
+    fail(path, "an array");
+  }
+  value.forEach((item, index) => checkItem(item, `${path}[${index}]`));
+}
+
+function checkLocation(value: unknown, path: string) {
+  if (!isObject(value)) {
+    fail(path, "a location");
+  }
+  checkNumber(value.lat, `${path}.lat`);
+  checkNumber(value.lng, `${path}.lng`);
+}
+
+function checkCell(value: unknown, path: string) {
+  if (!isObject(value)) {
+    fail(path, "a cell");
+  }
+  checkNumber(value.i, `${path}.i`);
+  checkNumber(value.j, `${path}.j`);
+}
+
+function checkCoinStop(value: unknown, path: string) {
+  if (!isObject(value)) {
+    fail(path, "a coin stop");
+  }
+  if (value.action !== "collected" && value.action !== "deposited") {
+    fail(`${path}.action`, '"collected" or "deposited"');
+  }
+  checkId(value.cacheId, `${path}.cacheId`);
+  checkCell(value.cell, `${path}.cell`);
+  checkNumber(value.timestamp, `${path}.timestamp`);
+}
+
+function checkCoin(value: unknown, path: string) {
+  if (!isObject(value)) {
+    fail(path, "a coin");
+  }
+  checkId(value.id, `${path}.id`);
+  checkId(value.originatingCacheId, `${path}.originatingCacheId`);
+  checkArray(value.trail, `${path}.trail`, checkCoinStop);
+  if (COIN_RARITIES.indexOf(value.rarity as CoinRarity) < 0) {
+    fail(`${path}.rarity`, `one of ${COIN_RARITIES.join(", ")}`);
+  }
+  checkNumber(value.denomination, `${path}.denomination`);
+}
+
+function checkCache(value: unknown, path: string) {
+  if (!isObject(value)) {
+    fail(path, "a cache");
+  }
+  checkId(value.id, `${path}.id`);
+  checkCell(value.cell, `${path}.cell`);
+  checkArray(value.coins, `${path}.coins`, checkCoin);
+  checkNumber(value.refilledAt, `${path}.refilledAt`);
+}
+
+function checkGameAction(value: unknown, path: string) {
+  if (!isObject(value)) {
+    fail(path, "an action");
+  }
+  if (value.type === "move") {
+    checkLocation(value.from, `${path}.from`);
+    checkLocation(value.to, `${path}.to`);
+  } else if (value.type === "collect" || value.type === "deposit") {
+    checkId(value.cacheId, `${path}.cacheId`);
+    checkId(value.coinId, `${path}.coinId`);
+    checkNumber(value.index, `${path}.index`);
+    checkCoinStop(value.stop, `${path}.stop`);
+    if (value.bonusCoinId !== undefined) {
+      checkId(value.bonusCoinId, `${path}.bonusCoinId`);
+    }
+  } else {
+    fail(`${path}.type`, '"move", "collect" or "deposit"');
+  }
+}
+
+function checkCommandHistory(value: unknown, path: string) {
+  if (!isObject(value)) {
+    fail(path, "an object");
+  }
+  checkArray(value.undo, `${path}.undo`, checkGameAction);
+  checkArray(value.redo, `${path}.redo`, checkGameAction);
+}
+
+function checkCellVisits(value: unknown, path: string) {
+  if (!isObject(value)) {
+    fail(path, "an object");
+  }
+  for (const key in value) {
+    checkNumber(value[key], `${path}[${JSON.stringify(key)}]`);
+  }
+}
+
+function checkMetricTotals(value: unknown, path: string) {
+  if (!isObject(value)) {
+    fail(path, "an object");
+  }
+  for (const key in value) {
+    if (QUEST_METRICS.indexOf(key as QuestMetric) < 0) {
+      fail(`${path}.${key}`, "a known quest metric");
+    }
+    checkNumber(value[key], `${path}.${key}`);
+  }
+}
+
+function checkQuestLog(value: unknown, path: string) {
+  if (!isObject(value)) {
+    fail(path, "an object");
+  }
+  checkMetricTotals(value.totals, `${path}.totals`);
+  if (!isObject(value.unlocked)) {
+    fail(`${path}.unlocked`, "an object");
+  }
+  for (const key in value.unlocked) {
+    checkNumber(value.unlocked[key], `${path}.unlocked.${key}`);
+  }
+  checkNumber(value.day, `${path}.day`);
+  checkMetricTotals(value.daily, `${path}.daily`);
+  checkArray(value.completedQuests, `${path}.completedQuests`, checkString);
+}
+
+function checkWorldSettings(value: unknown, path: string) {
+  try {
+    validateWorldSettings(value);
+  } catch (error) {
+    if (!(error instanceof WorldSettingsError)) {
+      throw error;
+    }
+    throw new SaveFormatError(`${path} is invalid: ${error.message}`);
+  }
+}
+
+// Each memento is the JSON a Geocache wrote for one cell
+function checkMementos(value: unknown, path: string) {
+  if (!isObject(value)) {
+    fail(path, "an object");
+  }
+  for (const key in value) {
+    const momento = value[key];
+    const mementoPath = `${path}[${JSON.stringify(key)}]`;
+    checkId(key, `${mementoPath} key`);
+    checkString(momento, mementoPath);
+
+    let geocache: unknown;
+    try {
+      geocache = JSON.parse(momento as string);
+    } catch {
+      fail(mementoPath, "a geocache memento");
+    }
+    if (!isObject(geocache)) {
+      fail(mementoPath, "a geocache memento");
+    }
+    checkNumber(geocache.i, `${mementoPath}.i`);
+    checkNumber(geocache.j, `${mementoPath}.j`);
+    checkArray(geocache.coins, `${mementoPath}.coins`, checkCoin);
+    checkNumber(geocache.refilledAt, `${mementoPath}.refilledAt`);
+  }
+}
+
+// Throws a SaveFormatError naming the first field that is out of shape
+export function validateGameState(value: unknown): asserts value is GameState {
+  if (!isObject(value)) {
+    fail("state", "an object");
+  }
+  checkArray(value.playerCoins, "state.playerCoins", checkCoin);
+  checkLocation(value.playerPosition, "state.playerPosition");
+  checkArray(value.cacheLocations, "state.cacheLocations", checkCache);
+  checkMementos(value.geocacheMementos, "state.geocacheMementos");
+  checkArray(value.movementHistory, "state.movementHistory", checkLocation);
+  checkCommandHistory(value.commandHistory, "state.commandHistory");
+  checkCellVisits(value.cellVisits, "state.cellVisits");
+  checkArray(value.discoveredCells, "state.discoveredCells", checkString);
+  checkQuestLog(value.quests, "state.quests");
+  checkWorldSettings(value.worldSettings, "state.worldSettings");
+}
+
+// Bring a parsed save of any known version up to CURRENT_SAVE_VERSION
+export function migrateSave(raw: unknown): SaveEnvelope {
+  if (!isObject(raw)) {
+    throw new SaveFormatError("Save is not an object");
+  }
+
+  // Unversioned saves are the bare GameState itself
+  let version = typeof raw.version === "number" ? raw.version : 0;
+  let state = version === 0 ? raw : raw.state;
+  const savedAt = typeof raw.savedAt === "number" ? raw.savedAt : 0;
+
+  if (version > CURRENT_SAVE_VERSION) {
+    throw new SaveFormatError(
+      `Save version ${version} is newer than this game (${CURRENT_SAVE_VERSION})`,
+    );
+  }
+
+  while (version < CURRENT_SAVE_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new SaveFormatError(`No migration from save version ${version}`);
+    }
+    if (!isObject(state)) {
+      fail("state", "an object");
+    }
+    try {
+      state = migrate(state);
+    } catch (error) {
+      throw new SaveFormatError(
+        `Save could not be migrated from version ${version}: ${error}`,
+      );
+    }
+    version++;
+  }
+
+  validateGameState(state);
+  return { version, savedAt, state };
+}
+
+export function parseSave(text: string): SaveEnvelope {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new SaveFormatError(`Save is not valid JSON: ${error}`);
+  }
+  return migrateSave(raw);
+}
+
+export function serializeSave(state: GameState, savedAt = Date.now()): string {
+  const envelope: SaveEnvelope = {
+    version: CURRENT_SAVE_VERSION,
+    savedAt,
+    state,
+  };
+  return JSON.stringify(envelope);
+}
@@ -0,0 +1,148 @@
+/// <reference lib="deno.ns" />
+import assert from "node:assert/strict";
+import { mergeBase, mergeGameStates } from "./saveMerge.ts";
+import {
+  Cache,
+  Coin,
+  CoinStop,
+  GameState,
+  Geocache,
+  listCaches,
+} from "./gameWorld.ts";
+import { QuestLog } from "./quests.ts";
+import { DEFAULT_WORLD_SETTINGS } from "./worldSettings.ts";
+
+const CACHE_A = "0,0";
+const CACHE_B = "0,1";
+
+function coin(id: string, cacheId = CACHE_A): Coin {
+  return {
+    id,
+    originatingCacheId: cacheId,
+    trail: [],
+    rarity: "common",
+    denomination: 1,
+  };
+}
+
+function cache(id: string, coins: Coin[]): Cache {
+  const [i, j] = id.split(",").map(Number);
+  return { id, cell: { i, j }, coins, refilledAt: 0 };
+}
+
+function game(playerCoins: Coin[], caches: Cache[]): GameState {
+  return mergeBase({
+    playerCoins,
+    playerPosition: { lat: 0, lng: 0 },
+    cacheLocations: caches,
+    geocacheMementos: {},
+    movementHistory: [],
+    commandHistory: { undo: [], redo: [] },
+    cellVisits: {},
+    discoveredCells: [],
+    quests: QuestLog.emptyState(),
+    worldSettings: DEFAULT_WORLD_SETTINGS,
+  });
+}
+
+// Move a coin out of a cache into the player's hands, as GameWorld would
+function collect(state: GameState, cacheId: string, coinId: string) {
+  const from = state.cacheLocations.find((cache) => cache.id === cacheId)!;
+  const index = from.coins.findIndex((coin) => coin.id === coinId);
+  const [taken] = from.coins.splice(index, 1);
+  taken.trail.push(stop("collected", cacheId, taken.trail.length + 1));
+  state.playerCoins.push(taken);
+}
+
+function deposit(state: GameState, cacheId: string, coinId: string) {
+  const to = state.cacheLocations.find((cache) => cache.id === cacheId)!;
+  const index = state.playerCoins.findIndex((coin) => coin.id === coinId);
+  const [given] = state.playerCoins.splice(index, 1);
+  given.trail.push(stop("deposited", cacheId, given.trail.length + 1));
+  to.coins.push(given);
+}
+
+function stop(
+  action: CoinStop["action"],
+  cacheId: string,
+  timestamp: number,
+): CoinStop {
+  const [i, j] = cacheId.split(",").map(Number);
+  return { action, cacheId, cell: { i, j }, timestamp };
+}
+
+function holders(state: GameState): { [coinId: string]: string } {
+  const result: { [coinId: string]: string } = {};
+  state.playerCoins.forEach((coin) => result[coin.id] = "player");
+  listCaches(state).forEach((cache) =>
+    cache.coins.forEach((coin) => result[coin.id] = cache.id)
+  );
+  return result;
+}
+
+function twoTabs(): [GameState, GameState, GameState] {
+  const base = game([], [
+    cache(CACHE_A, [coin("a1"), coin("a2")]),
+    cache(CACHE_B, [coin("b1", CACHE_B)]),
+  ]);
+  return [base, mergeBase(base), mergeBase(base)];
+}
+
+Deno.test("coins each tab moved on its own all end up moved", () => {
+  const [base, ours, theirs] = twoTabs();
+  collect(ours, CACHE_A, "a1");
+  collect(theirs, CACHE_B, "b1");
+
+  const { state, conflicts } = mergeGameStates(base, ours, theirs);
+  assert.deepEqual(conflicts, []);
+  assert.deepEqual(holders(state), { a1: "player", a2: CACHE_A, b1: "player" });
+});
+
+Deno.test("a coin both tabs moved goes where it moved last", () => {
+  const [base, ours, theirs] = twoTabs();
+  collect(ours, CACHE_A, "a1");
+  collect(theirs, CACHE_A, "a1");
+  deposit(theirs, CACHE_B, "a1");
+
+  const { state, conflicts } = mergeGameStates(base, ours, theirs);
+  assert.deepEqual(conflicts, ["a1"]);
+  assert.equal(holders(state).a1, CACHE_B);
+  assert.deepEqual(state.playerCoins, []);
+});
+
+Deno.test("the same move made in both tabs is no conflict", () => {
+  const [base, ours, theirs] = twoTabs();
+  collect(ours, CACHE_A, "a2");
+  collect(theirs, CACHE_A, "a2");
+
+  const { state, conflicts } = mergeGameStates(base, ours, theirs);
+  assert.deepEqual(conflicts, []);
+  assert.deepEqual(state.playerCoins.map((coin) => coin.id), ["a2"]);
+});
+
+Deno.test("caches off this tab's screen are kept as mementos", () => {
+  const [base, ours, theirs] = twoTabs();
+  ours.cacheLocations = ours.cacheLocations.filter((cache) =>
+    cache.id === CACHE_A
+  );
+  ours.geocacheMementos[CACHE_B] = new Geocache(0, 1, [coin("b1", CACHE_B)])
+    .toMomento();
+
+  const { state } = mergeGameStates(base, ours, theirs);
+  assert.deepEqual(state.cacheLocations.map((cache) => cache.id), [CACHE_A]);
+  assert.deepEqual(Object.keys(state.geocacheMementos), [CACHE_B]);
+  assert.equal(holders(state).b1, CACHE_B);
+});
+
+Deno.test("quest progress made in both tabs is added up", () => {
+  const [base, ours, theirs] = twoTabs();
+  base.quests.totals = { metersWalked: 100, coinsCollected: 2 };
+  ours.quests.totals = { metersWalked: 150, coinsCollected: 3 };
+  theirs.quests.totals = { metersWalked: 130, coinsCollected: 2 };
+
+  const { state } = mergeGameStates(base, ours, theirs);
+  assert.deepEqual(state.quests.totals, {
+    metersWalked: 180,
+    coinsCollected: 3,
+  });
+});
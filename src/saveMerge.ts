@@ -0,0 +1,163 @@
+// Three-way merge of saved games written by two tabs at once.
+// Coins are the only thing two tabs can fight over: each coin goes wherever
+// the side that moved it since the common save put it. When both sides
+// moved the same coin, the more recent move wins and counts as a conflict.
+import { Cache, Coin, GameState, Geocache, listCaches } from "./gameWorld.ts";
+import { mergeQuestLogs } from "./quests.ts";
+
+const PLAYER = "player";
+
+interface CoinPlacement {
+  coin: Coin;
+  holder: string; // PLAYER or the id of the cache holding the coin
+  index: number; // Position within the holder's list
+}
+
+export interface MergeResult {
+  state: GameState;
+  conflicts: string[]; // Ids of coins both sides moved differently
+}
+
+function placeCoins(gameState: GameState): Map<string, CoinPlacement> {
+  const placements = new Map<string, CoinPlacement>();
+  gameState.playerCoins.forEach((coin, index) =>
+    placements.set(coin.id, { coin, holder: PLAYER, index })
+  );
+  listCaches(gameState).forEach((cache) => {
+    cache.coins.forEach((coin, index) =>
+      placements.set(coin.id, { coin, holder: cache.id, index })
+    );
+  });
+  return placements;
+}
+
+function lastMoved(placement: CoinPlacement): number {
+  const trail = placement.coin.trail;
+  return trail.length > 0 ? trail[trail.length - 1].timestamp : 0;
+}
+
+function hasMoved(
+  placement: CoinPlacement | undefined,
+  base: CoinPlacement | undefined,
+): boolean {
+  if (!placement || !base) {
+    return placement !== base;
+  }
+  return placement.holder !== base.holder ||
+    placement.coin.trail.length !== base.coin.trail.length;
+}
+
+// A copy of a game to merge against later, cut down to what merging reads.
+// GameWorld's own snapshots share coin lists with the live game.
+export function mergeBase(gameState: GameState): GameState {
+  return JSON.parse(JSON.stringify({
+    ...gameState,
+    movementHistory: [],
+    commandHistory: { undo: [], redo: [] },
+  }));
+}
+
+// `ours` is this tab's game, `theirs` is what another tab saved on top of
+// `base`, the save both started from. The player's own position, route and
+// undo history always come from `ours`.
+export function mergeGameStates(
+  base: GameState | undefined,
+  ours: GameState,
+  theirs: GameState,
+): MergeResult {
+  const basePlacements = base ? placeCoins(base) : new Map();
+  const ourPlacements = placeCoins(ours);
+  const theirPlacements = placeCoins(theirs);
+
+  // Step 1: decide where every coin ends up
+  const conflicts: string[] = [];
+  const chosen: CoinPlacement[] = [];
+  const coinIds = new Set([...ourPlacements.keys(), ...theirPlacements.keys()]);
+  coinIds.forEach((coinId) => {
+    const basePlacement = basePlacements.get(coinId);
+    const ourPlacement = ourPlacements.get(coinId);
+    const theirPlacement = theirPlacements.get(coinId);
+    const weMoved = hasMoved(ourPlacement, basePlacement);
+    const theyMoved = hasMoved(theirPlacement, basePlacement);
+
+    let placement = ourPlacement ?? theirPlacement;
+    if (!ourPlacement || !theirPlacement) {
+      // Only one side has seen this coin, so there is nothing to reconcile
+    } else if (theyMoved && !weMoved) {
+      placement = theirPlacement;
+    } else if (
+      weMoved && theyMoved && hasMoved(ourPlacement, theirPlacement)
+    ) {
+      conflicts.push(coinId);
+      if (lastMoved(theirPlacement) > lastMoved(ourPlacement)) {
+        placement = theirPlacement;
+      }
+    }
+    chosen.push(placement!);
+  });
+
+  // Step 2: every cache either side knows about, emptied out. Refills use
+  // ids fixed by cell and period, so the later refill of the two stands.
+  const caches = new Map<string, Cache>();
+  [...listCaches(theirs), ...listCaches(ours)].forEach((cache) => {
+    caches.set(cache.id, {
+      id: cache.id,
+      cell: cache.cell,
+      coins: [],
+      refilledAt: Math.max(
+        cache.refilledAt,
+        caches.get(cache.id)?.refilledAt ?? cache.refilledAt,
+      ),
+    });
+  });
+
+  // Step 3: hand the coins back out, keeping each side's ordering
+  const playerCoins: Coin[] = [];
+  chosen.sort((a, b) => a.index - b.index).forEach(({ coin, holder }) => {
+    if (holder === PLAYER) {
+      playerCoins.push(coin);
+    } else {
+      caches.get(holder)!.coins.push(coin);
+    }
+  });
+
+  // Step 4: caches on screen for this tab stay on screen, the rest are
+  // remembered as mementos the way GameWorld keeps off-screen caches
+  const onScreen = new Set(ours.cacheLocations.map((cache) => cache.id));
+  const cacheLocations: Cache[] = [];
+  const geocacheMementos: { [key: string]: string } = {};
+  caches.forEach((cache) => {
+    if (onScreen.has(cache.id)) {
+      cacheLocations.push(cache);
+    }
+    if (
+      !onScreen.has(cache.id) || cache.id in ours.geocacheMementos ||
+      cache.id in theirs.geocacheMementos
+    ) {
+      geocacheMementos[cache.id] = new Geocache(
+        cache.cell.i,
+        cache.cell.j,
+        cache.coins,
+        cache.refilledAt,
+      ).toMomento();
+    }
+  });
+
+  return {
+    state: {
+      playerCoins,
+      playerPosition: ours.playerPosition,
+      cacheLocations,
+      geocacheMementos,
+      movementHistory: ours.movementHistory,
+      commandHistory: ours.commandHistory,
+      cellVisits: ours.cellVisits, // Visits follow the route, which is ours
+      discoveredCells: Array.from(
+        new Set([...ours.discoveredCells, ...theirs.discoveredCells]),
+      ),
+      quests: mergeQuestLogs(base?.quests, ours.quests, theirs.quests),
+      worldSettings: ours.worldSettings, // Only saves of one world are merged
+    },
+    conflicts,
+  };
+}
@@ -0,0 +1,61 @@
+/// <reference lib="deno.ns" />
+import assert from "node:assert/strict";
+import { Board } from "./board.ts";
+import { GameWorld } from "./gameWorld.ts";
+import { parseSave, SaveFormatError, serializeSave } from "./saveFormat.ts";
+import { decodeShareString, encodeShareString } from "./saveTransfer.ts";
+import { DEFAULT_WORLD_SETTINGS } from "./worldSettings.ts";
+
+// A game with a long route behind it, as it would be written to a save
+function savedGame(steps: number): string {
+  const world = new GameWorld({
+    board: new Board(
+      DEFAULT_WORLD_SETTINGS.tileWidth,
+      DEFAULT_WORLD_SETTINGS.visibilityRadius,
+    ),
+    worldSettings: DEFAULT_WORLD_SETTINGS,
+    interactionRadius: 1,
+    undoLimit: 100,
+    regenerationPeriod: 24 * 60 * 60 * 1000,
+    regenerationRate: 3,
+    quests: { dayLength: 24 * 60 * 60 * 1000, dailyQuestCount: 3 },
+    now: () => Date.UTC(2024, 0, 1),
+  });
+  for (let step = 0; step < steps; step++) {
+    world.move(step % 4 < 2 ? "north" : "east");
+  }
+  return serializeSave(world.toGameState(), 1234);
+}
+
+Deno.test("a share string reads back as the save it was made from", async () => {
+  const saveText = savedGame(20);
+  const shareString = await encodeShareString(saveText);
+
+  assert.match(shareString, /^[\w-]+$/);
+  assert.deepEqual(
+    await decodeShareString(`  ${shareString}\n`),
+    parseSave(saveText),
+  );
+});
+
+Deno.test("share strings are compressed", async () => {
+  const saveText = savedGame(200);
+  const shareString = await encodeShareString(saveText);
+
+  // Plain base64 would be a third longer than the save itself
+  assert.ok(
+    shareString.length < saveText.length / 2,
+    `${shareString.length} characters for a ${saveText.length} byte save`,
+  );
+});
+
+Deno.test("share strings that are not compressed saves are refused", async () => {
+  await assert.rejects(() => decodeShareString("not base64!"), {
+    name: "SaveFormatError",
+    message: "Share string is not valid base64",
+  });
+  await assert.rejects(
+    () => decodeShareString(btoa(savedGame(1))),
+    SaveFormatError,
+  );
+});
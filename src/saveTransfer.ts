@@ -0,0 +1,103 @@
+// Moving saves between devices: share strings and import summaries.
+// A share string is the same JSON envelope written to localStorage,
+// deflated to keep long routes pasteable, then encoded as URL-safe base64
+// so it survives chat apps and bug trackers.
+import { GameState, listCaches } from "./gameWorld.ts";
+import { parseSave, SaveEnvelope, SaveFormatError } from "./saveFormat.ts";
+import { describeWorld } from "./worldSettings.ts";
+
+function transform(
+  bytes: BufferSource,
+  stream: CompressionStream | DecompressionStream,
+): Promise<ArrayBuffer> {
+  return new Response(new Blob([bytes]).stream().pipeThrough(stream))
+    .arrayBuffer();
+}
+
+export async function encodeShareString(saveText: string): Promise<string> {
+  const compressed = await transform(
+    new TextEncoder().encode(saveText),
+    new CompressionStream("deflate-raw"),
+  );
+
+  let binary = "";
+  new Uint8Array(compressed).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export async function decodeShareString(
+  shareString: string,
+): Promise<SaveEnvelope> {
+  const base64 = shareString.trim()
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+
+  let binary: string;
+  try {
+    binary = atob(base64 + "===".slice((base64.length + 3) % 4));
+  } catch {
+    throw new SaveFormatError("Share string is not valid base64");
+  }
+
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+
+  let saveBytes: ArrayBuffer;
+  try {
+    saveBytes = await transform(bytes, new DecompressionStream("deflate-raw"));
+  } catch {
+    throw new SaveFormatError("Share string is not a compressed save");
+  }
+  return parseSave(new TextDecoder().decode(saveBytes));
+}
+
+interface SaveSummary {
+  coinsHeld: number;
+  cachesKnown: number;
+  stepsWalked: number;
+  cellsDiscovered: number;
+  position: string;
+  world: string;
+}
+
+function summarize(state: GameState): SaveSummary {
+  return {
+    coinsHeld: state.playerCoins.length,
+    cachesKnown: listCaches(state).length,
+    stepsWalked: state.movementHistory.length,
+    cellsDiscovered: state.discoveredCells.length,
+    position: `${state.playerPosition.lat.toFixed(5)}, ${
+      state.playerPosition.lng.toFixed(5)
+    }`,
+    world: describeWorld(state.worldSettings),
+  };
+}
+
+// One line per field, "current → incoming", for the import confirmation
+export function describeImport(
+  current: GameState,
+  incoming: SaveEnvelope,
+): string {
+  const before = summarize(current);
+  const after = summarize(incoming.state);
+  const savedAt = incoming.savedAt
+    ? new Date(incoming.savedAt).toLocaleString()
+    : "unknown";
+
+  return [
+    `Saved: ${savedAt}`,
+    `Coins held: ${before.coinsHeld} → ${after.coinsHeld}`,
+    `Caches known: ${before.cachesKnown} → ${after.cachesKnown}`,
+    `Steps walked: ${before.stepsWalked} → ${after.stepsWalked}`,
+    `Cells discovered: ${before.cellsDiscovered} → ${after.cellsDiscovered}`,
+    `Position: ${before.position} → ${after.position}`,
+    `World: ${before.world} → ${after.world}`,
+  ].join("\n");
+}
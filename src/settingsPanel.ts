@@ -0,0 +1,190 @@
+// Form for the world settings: the seed, grid, step and start point. The
+// world being played is shown filled in; a changed world is played in a
+// new profile and can be shared as a link.
+import {
+  DEFAULT_WORLD_SETTINGS,
+  validateWorldSettings,
+  WorldSettings,
+  WorldSettingsError,
+} from "./worldSettings.ts";
+
+export interface SettingsPanelOptions {
+  onPlay: (settings: WorldSettings) => void;
+  onShare: (settings: WorldSettings) => void;
+}
+
+// One form field per setting; all but the seed are numbers
+const FIELDS: {
+  label: string;
+  step: string;
+  get: (settings: WorldSettings) => string | number;
+  set: (settings: WorldSettings, value: string) => void;
+}[] = [
+  {
+    label: "Seed",
+    step: "",
+    get: (settings) => settings.seed,
+    set: (settings, value) => settings.seed = value.trim(),
+  },
+  {
+    label: "Tile width (°)",
+    step: "0.0001",
+    get: (settings) => settings.tileWidth,
+    set: (settings, value) => settings.tileWidth = toNumber(value),
+  },
+  {
+    label: "Visibility radius (cells)",
+    step: "1",
+    get: (settings) => settings.visibilityRadius,
+    set: (settings, value) => settings.visibilityRadius = toNumber(value),
+  },
+  {
+    label: "Zoom",
+    step: "1",
+    get: (settings) => settings.zoom,
+    set: (settings, value) => settings.zoom = toNumber(value),
+  },
+  {
+    label: "Move distance (°)",
+    step: "0.00001",
+    get: (settings) => settings.moveDistance,
+    set: (settings, value) => settings.moveDistance = toNumber(value),
+  },
+  {
+    label: "Start latitude",
+    step: "any",
+    get: (settings) => settings.start.lat,
+    set: (settings, value) => settings.start.lat = toNumber(value),
+  },
+  {
+    label: "Start longitude",
+    step: "any",
+    get: (settings) => settings.start.lng,
+    set: (settings, value) => settings.start.lng = toNumber(value),
+  },
+  {
+    label: "Cache probability",
+    step: "0.01",
+    get: (settings) => settings.cacheSpawnProbability,
+    set: (settings, value) => settings.cacheSpawnProbability = toNumber(value),
+  },
+];
+
+function toNumber(value: string): number {
+  return value.trim() === "" ? NaN : Number(value);
+}
+
+export class SettingsPanel {
+  private readonly container: HTMLElement;
+  private readonly options: SettingsPanelOptions;
+  private readonly inputs: HTMLInputElement[];
+  private readonly error: HTMLElement;
+  private readonly playButton: HTMLButtonElement;
+  private readonly shareButton: HTMLButtonElement;
+  private current: WorldSettings = DEFAULT_WORLD_SETTINGS;
+
+  constructor(container: HTMLElement, options: SettingsPanelOptions) {
+    this.container = container;
+    this.options = options;
+
+    const form = document.createElement("div");
+    form.className = "settings-form";
+    this.inputs = FIELDS.map((field) => {
+      const label = document.createElement("label");
+      label.textContent = field.label;
+      const input = document.createElement("input");
+      input.type = field.step ? "number" : "text";
+      if (field.step) {
+        input.step = field.step;
+      }
+      input.addEventListener("input", () => this.validate());
+      label.appendChild(input);
+      form.appendChild(label);
+      return input;
+    });
+
+    this.error = document.createElement("p");
+    this.error.className = "settings-error";
+
+    const controls = document.createElement("div");
+    controls.className = "settings-controls";
+    this.playButton = this.button("Play this world", () => {
+      const settings = this.validate();
+      if (settings) {
+        this.options.onPlay(settings);
+      }
+    });
+    this.shareButton = this.button("Copy link", () => {
+      const settings = this.validate();
+      if (settings) {
+        this.options.onShare(settings);
+      }
+    });
+    controls.append(
+      this.playButton,
+      this.shareButton,
+      this.button("Defaults", () => this.fill(DEFAULT_WORLD_SETTINGS)),
+      this.button("Undo changes", () => this.fill(this.current)),
+    );
+
+    container.replaceChildren(form, this.error, controls);
+  }
+
+  isOpen(): boolean {
+    return !this.container.hidden;
+  }
+
+  toggle() {
+    this.container.hidden = !this.container.hidden;
+    if (this.isOpen()) {
+      this.fill(this.current);
+    }
+  }
+
+  // The world being played right now
+  setWorld(settings: WorldSettings) {
+    this.current = settings;
+    if (this.isOpen()) {
+      this.fill(settings);
+    }
+  }
+
+  private button(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.addEventListener("click", onClick);
+    return button;
+  }
+
+  private fill(settings: WorldSettings) {
+    FIELDS.forEach((field, index) => {
+      this.inputs[index].value = String(field.get(settings));
+    });
+    this.validate();
+  }
+
+  // The settings in the form, or undefined with the problem shown
+  private validate(): WorldSettings | undefined {
+    const settings: WorldSettings = {
+      ...this.current,
+      start: { ...this.current.start },
+    };
+    FIELDS.forEach((field, index) => {
+      field.set(settings, this.inputs[index].value);
+    });
+
+    let valid: WorldSettings | undefined;
+    try {
+      valid = validateWorldSettings(settings);
+      this.error.textContent = "";
+    } catch (error) {
+      if (!(error instanceof WorldSettingsError)) {
+        throw error;
+      }
+      this.error.textContent = error.message;
+    }
+    this.playButton.disabled = !valid;
+    this.shareButton.disabled = !valid;
+    return valid;
+  }
+}
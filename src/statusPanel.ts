@@ -0,0 +1,190 @@
+// The always-visible HUD: coins held, the player's cell, distance walked,
+// cells discovered, what the GPS is doing, the multiplayer connection and
+// the next world event.
+// Opening it lists every coin held, where picking one asks main.ts to show
+// where that coin came from, and the events coming up.
+import type { Cell } from "./board.ts";
+import type { Coin } from "./gameWorld.ts";
+import { walletValue } from "./coinRarity.ts";
+import type { GeolocationStatus } from "./locationProviders.ts";
+import type { SyncStatus } from "./syncClient.ts";
+import type { WorldEvent } from "./worldEvents.ts";
+
+export interface StatusPanelOptions {
+  onCoinSelected: (coin: Coin) => void;
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleString([], {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatDistance(meters: number): string {
+  return meters < 1000
+    ? `${Math.round(meters)} m`
+    : `${(meters / 1000).toFixed(2)} km`;
+}
+
+export class StatusPanel {
+  private readonly options: StatusPanelOptions;
+  private readonly coinCount: HTMLElement;
+  private readonly cell: HTMLElement;
+  private readonly distance: HTMLElement;
+  private readonly discovered: HTMLElement;
+  private readonly geolocation: HTMLElement;
+  private readonly connection: HTMLElement;
+  private readonly nextEvent: HTMLElement;
+  private readonly inventory: HTMLElement;
+  private readonly schedule: HTMLElement;
+  private coins: readonly Coin[] = [];
+
+  constructor(container: HTMLElement, options: StatusPanelOptions) {
+    this.options = options;
+
+    // A <details> element gives the expand/collapse for free
+    const details = document.createElement("details");
+    details.className = "hud";
+    const summary = document.createElement("summary");
+    this.coinCount = this.addField(summary, "hud-coins");
+    this.cell = this.addField(summary, "hud-cell");
+    this.distance = this.addField(summary, "hud-distance");
+    this.discovered = this.addField(summary, "hud-discovered");
+    this.geolocation = this.addField(
+      summary,
+      "hud-geolocation geolocation-status",
+    );
+    this.connection = this.addField(summary, "hud-connection");
+    this.nextEvent = this.addField(summary, "hud-event");
+    details.appendChild(summary);
+
+    this.inventory = document.createElement("ul");
+    this.inventory.className = "hud-inventory";
+    this.inventory.addEventListener("click", (event) => {
+      const coinId = (event.target as HTMLElement).closest<HTMLElement>(
+        "[data-coin-id]",
+      )?.dataset.coinId;
+      const coin = this.coins.find((coin) => coin.id === coinId);
+      if (coin) {
+        this.options.onCoinSelected(coin);
+      }
+    });
+    details.appendChild(this.inventory);
+
+    this.schedule = document.createElement("ul");
+    this.schedule.className = "hud-schedule";
+    details.appendChild(this.schedule);
+
+    container.replaceChildren(details);
+    this.setCoins([]);
+    this.setDistance(0);
+    this.setDiscovered(0);
+    this.setGeolocation("off", "");
+    this.setConnection("off", 0, 0);
+    this.setEvents([], 0);
+  }
+
+  setCoins(coins: readonly Coin[]) {
+    this.coins = coins;
+    this.coinCount.textContent = `🪙 ${coins.length} ${
+      coins.length === 1 ? "coin" : "coins"
+    } · worth ${walletValue(coins)}`;
+
+    // Newest first, the same order the deposit list uses
+    const items = coins.map((coin) => {
+      const item = document.createElement("li");
+      const button = document.createElement("button");
+      button.className = `coin-id coin-${coin.rarity}`;
+      button.dataset.coinId = coin.id;
+      button.title = `Show cache ${coin.originatingCacheId} on the map`;
+      button.textContent = `${coin.id} · ${coin.rarity}, ${coin.denomination}`;
+      item.appendChild(button);
+      return item;
+    }).reverse();
+
+    if (items.length === 0) {
+      const empty = document.createElement("li");
+      empty.className = "hud-empty";
+      empty.textContent = "No coins yet. Collect some from a nearby cache.";
+      items.push(empty);
+    }
+    this.inventory.replaceChildren(...items);
+  }
+
+  setCell(cell: Cell) {
+    this.cell.textContent = `📍 Cell ${cell.i},${cell.j}`;
+  }
+
+  setDistance(meters: number) {
+    this.distance.textContent = `🚶 ${formatDistance(meters)} walked`;
+  }
+
+  setDiscovered(cells: number) {
+    this.discovered.textContent = `🗺️ ${cells} ${
+      cells === 1 ? "cell" : "cells"
+    } discovered`;
+  }
+
+  setGeolocation(status: GeolocationStatus, label: string) {
+    this.geolocation.textContent = `🌐 ${label || "GPS off"}`;
+    this.geolocation.dataset.status = status;
+  }
+
+  // "off" when playing alone, without a multiplayer server
+  setConnection(
+    status: SyncStatus | "off",
+    pending: number,
+    otherPlayers: number,
+  ) {
+    const waiting = pending > 0
+      ? `, ${pending} ${pending === 1 ? "change" : "changes"} waiting`
+      : "";
+    this.connection.textContent = status === "off"
+      ? "👥 Playing alone"
+      : status === "online"
+      ? `👥 Online with ${otherPlayers} ${
+        otherPlayers === 1 ? "other" : "others"
+      }${waiting}`
+      : status === "connecting"
+      ? `👥 Connecting…${waiting}`
+      : `👥 Offline${waiting}`;
+    this.connection.dataset.status = status;
+  }
+
+  // Events from `now` on, soonest first; the first may already be running
+  setEvents(events: readonly WorldEvent[], now: number) {
+    const [next] = events;
+    this.nextEvent.textContent = !next
+      ? "🎉 No events coming up"
+      : next.start <= now
+      ? `🎉 Bonus cells until ${formatTime(next.end)}`
+      : `🎉 Bonus cells from ${formatTime(next.start)}`;
+    this.nextEvent.dataset.active = String(
+      next !== undefined && next.start <= now,
+    );
+
+    const items = events.map((event) => {
+      const item = document.createElement("li");
+      item.textContent = `${formatTime(event.start)} – ${
+        formatTime(event.end)
+      }: bonus cells pay double`;
+      return item;
+    });
+    if (items.length === 0) {
+      const empty = document.createElement("li");
+      empty.className = "hud-empty";
+      empty.textContent = "No world events scheduled for now.";
+      items.push(empty);
+    }
+    this.schedule.replaceChildren(...items);
+  }
+
+  private addField(parent: HTMLElement, className: string): HTMLElement {
+    const field = document.createElement("span");
+    field.className = className;
+    parent.appendChild(field);
+    return field;
+  }
+}
@@ -0,0 +1,376 @@
+// Where saved games physically live. A save is split into a small head
+// record, the movement history (one record per point, so steps can be
+// appended) and one record per cache cell. GameStore decides what to
+// write; a backend only has to store it. Each game's journal is kept
+// alongside but apart, so resetting the game leaves it in place.
+import type { Coin, Location } from "./gameWorld.ts";
+import type { CommandHistoryState } from "./commandHistory.ts";
+import type { JournalEntry } from "./journal.ts";
+import type { QuestLogState } from "./quests.ts";
+import type { WorldSettings } from "./worldSettings.ts";
+
+// Everything in a save except its history and caches
+export interface StoredGameHead {
+  version: number;
+  savedAt: number;
+  revision: string; // Changes on every write, so tabs can spot each other
+  playerCoins: Coin[];
+  playerPosition: Location;
+  commandHistory: CommandHistoryState;
+  cellVisits: { [cellId: string]: number };
+  discoveredCells: string[];
+  quests: QuestLogState;
+  worldSettings: WorldSettings;
+  simplifiedLength: number; // Leading history points already simplified
+}
+
+export interface StoredCache {
+  id: string;
+  i: number;
+  j: number;
+  coins: Coin[];
+  refilledAt?: number; // Missing from caches stored before refills existed
+}
+
+// One save's worth of changes, applied all together or not at all
+export interface SaveChanges {
+  replace: boolean; // Drop everything stored for the game first
+  head: StoredGameHead;
+  history?: { from: number; points: Location[] }; // Overwrites from on
+  putCaches: StoredCache[];
+  deleteCaches: string[];
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  readHead(gameId: string): Promise<StoredGameHead | undefined>;
+  readHistory(gameId: string): Promise<Location[]>;
+  readCaches(gameId: string): Promise<StoredCache[]>;
+  commit(gameId: string, changes: SaveChanges): Promise<void>;
+  deleteGame(gameId: string): Promise<void>;
+  appendJournal(gameId: string, entries: JournalEntry[]): Promise<void>;
+  readJournal(gameId: string): Promise<JournalEntry[]>; // Oldest first
+  deleteJournal(gameId: string): Promise<void>;
+}
+
+// Keeps everything in memory; for tests and browsers with no storage at all
+export class MemoryBackend implements StorageBackend {
+  readonly name = "memory";
+  private readonly heads = new Map<string, StoredGameHead>();
+  private readonly histories = new Map<string, Location[]>();
+  private readonly caches = new Map<string, Map<string, StoredCache>>();
+  private readonly journals = new Map<string, JournalEntry[]>();
+
+  readHead(gameId: string) {
+    return Promise.resolve(clone(this.heads.get(gameId)));
+  }
+
+  readHistory(gameId: string) {
+    return Promise.resolve(clone(this.histories.get(gameId) ?? []));
+  }
+
+  readCaches(gameId: string) {
+    const caches = this.caches.get(gameId);
+    return Promise.resolve(clone(caches ? Array.from(caches.values()) : []));
+  }
+
+  commit(gameId: string, changes: SaveChanges) {
+    changes = clone(changes); // Don't share objects with the caller
+    if (changes.replace) {
+      this.deleteGame(gameId);
+    }
+    this.heads.set(gameId, changes.head);
+
+    const history = this.histories.get(gameId) ?? [];
+    if (changes.history) {
+      history.length = changes.history.from;
+      history.push(...changes.history.points);
+    }
+    this.histories.set(gameId, history);
+
+    const caches = this.caches.get(gameId) ?? new Map();
+    changes.deleteCaches.forEach((cacheId) => caches.delete(cacheId));
+    changes.putCaches.forEach((cache) => caches.set(cache.id, cache));
+    this.caches.set(gameId, caches);
+    return Promise.resolve();
+  }
+
+  deleteGame(gameId: string) {
+    this.heads.delete(gameId);
+    this.histories.delete(gameId);
+    this.caches.delete(gameId);
+    return Promise.resolve();
+  }
+
+  appendJournal(gameId: string, entries: JournalEntry[]) {
+    const journal = this.journals.get(gameId) ?? [];
+    journal.push(...clone(entries));
+    journal.sort((a, b) => a.timestamp - b.timestamp);
+    this.journals.set(gameId, journal);
+    return Promise.resolve();
+  }
+
+  readJournal(gameId: string) {
+    return Promise.resolve(clone(this.journals.get(gameId) ?? []));
+  }
+
+  deleteJournal(gameId: string) {
+    this.journals.delete(gameId);
+    return Promise.resolve();
+  }
+}
+
+// Everything stored for one game, kept under a single key so a commit is
+// written all at once or, if storage is full, not at all
+interface LocalStorageGame {
+  head: StoredGameHead;
+  history: Location[];
+  caches: { [cacheId: string]: StoredCache };
+}
+
+function localGameKey(gameId: string): string {
+  return `storedGame:${gameId}`;
+}
+
+function localJournalKey(gameId: string): string {
+  return `storedJournal:${gameId}`;
+}
+
+// Keeps saves in local storage, for browsers where IndexedDB can't be
+// opened. Whole games are rewritten on each commit, so it is slower than
+// IndexedDB, but saves still outlast the page.
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = "localstorage";
+  private readonly storage: Storage;
+
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  readHead(gameId: string) {
+    return Promise.resolve(this.readGame(gameId)?.head);
+  }
+
+  readHistory(gameId: string) {
+    return Promise.resolve(this.readGame(gameId)?.history ?? []);
+  }
+
+  readCaches(gameId: string) {
+    const caches = this.readGame(gameId)?.caches ?? {};
+    return Promise.resolve(Object.keys(caches).map((id) => caches[id]));
+  }
+
+  commit(gameId: string, changes: SaveChanges) {
+    const stored = changes.replace ? undefined : this.readGame(gameId);
+    const game: LocalStorageGame = {
+      head: changes.head,
+      history: stored?.history ?? [],
+      caches: stored?.caches ?? {},
+    };
+    if (changes.history) {
+      game.history.length = changes.history.from;
+      game.history.push(...changes.history.points);
+    }
+    changes.deleteCaches.forEach((cacheId) => delete game.caches[cacheId]);
+    changes.putCaches.forEach((cache) => game.caches[cache.id] = cache);
+    return this.write(localGameKey(gameId), game);
+  }
+
+  deleteGame(gameId: string) {
+    this.storage.removeItem(localGameKey(gameId));
+    return Promise.resolve();
+  }
+
+  appendJournal(gameId: string, entries: JournalEntry[]) {
+    const journal = this.readJournalNow(gameId);
+    journal.push(...entries);
+    journal.sort((a, b) => a.timestamp - b.timestamp);
+    return this.write(localJournalKey(gameId), journal);
+  }
+
+  readJournal(gameId: string) {
+    return Promise.resolve(this.readJournalNow(gameId));
+  }
+
+  deleteJournal(gameId: string) {
+    this.storage.removeItem(localJournalKey(gameId));
+    return Promise.resolve();
+  }
+
+  private readGame(gameId: string): LocalStorageGame | undefined {
+    const text = this.storage.getItem(localGameKey(gameId));
+    return text === null ? undefined : JSON.parse(text);
+  }
+
+  private readJournalNow(gameId: string): JournalEntry[] {
+    return JSON.parse(this.storage.getItem(localJournalKey(gameId)) ?? "[]");
+  }
+
+  // A full storage rejects the commit instead of throwing from it
+  private write(key: string, value: unknown): Promise<void> {
+    try {
+      this.storage.setItem(key, JSON.stringify(value));
+      return Promise.resolve();
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+const DATABASE_NAME = "geocoin";
+const DATABASE_VERSION = 2; // 2 added the journal
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// History and cache records are keyed [gameId, n] and journal entries
+// [gameId, timestamp, id]; arrays sort after every number and string, so
+// this range covers exactly one game's records
+function gameRange(gameId: string, from?: number): IDBKeyRange {
+  return IDBKeyRange.bound(
+    from === undefined ? [gameId] : [gameId, from],
+    [gameId, []],
+  );
+}
+
+export class IndexedDBBackend implements StorageBackend {
+  readonly name = "indexeddb";
+  private readonly database: IDBDatabase;
+
+  private constructor(database: IDBDatabase) {
+    this.database = database;
+  }
+
+  static async open(factory: IDBFactory): Promise<IndexedDBBackend> {
+    const request = factory.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      ["games", "history", "caches", "journal"].forEach((name) => {
+        if (!database.objectStoreNames.contains(name)) {
+          database.createObjectStore(name);
+        }
+      });
+    };
+    return new IndexedDBBackend(await requestResult(request));
+  }
+
+  readHead(gameId: string): Promise<StoredGameHead | undefined> {
+    return requestResult(
+      this.database.transaction("games").objectStore("games").get(gameId),
+    );
+  }
+
+  readHistory(gameId: string): Promise<Location[]> {
+    return requestResult(
+      this.database.transaction("history").objectStore("history").getAll(
+        gameRange(gameId),
+      ),
+    );
+  }
+
+  readCaches(gameId: string): Promise<StoredCache[]> {
+    return requestResult(
+      this.database.transaction("caches").objectStore("caches").getAll(
+        gameRange(gameId),
+      ),
+    );
+  }
+
+  commit(gameId: string, changes: SaveChanges): Promise<void> {
+    const transaction = this.database.transaction(
+      ["games", "history", "caches"],
+      "readwrite",
+    );
+    const history = transaction.objectStore("history");
+    const caches = transaction.objectStore("caches");
+    if (changes.replace) {
+      history.delete(gameRange(gameId));
+      caches.delete(gameRange(gameId));
+    }
+    transaction.objectStore("games").put(changes.head, gameId);
+
+    if (changes.history) {
+      const { from, points } = changes.history;
+      history.delete(gameRange(gameId, from));
+      points.forEach((point, index) =>
+        history.put(point, [gameId, from + index])
+      );
+    }
+
+    changes.deleteCaches.forEach((cacheId) => caches.delete([gameId, cacheId]));
+    changes.putCaches.forEach((cache) => caches.put(cache, [gameId, cache.id]));
+
+    return transactionDone(transaction);
+  }
+
+  deleteGame(gameId: string): Promise<void> {
+    const transaction = this.database.transaction(
+      ["games", "history", "caches"],
+      "readwrite",
+    );
+    transaction.objectStore("games").delete(gameId);
+    transaction.objectStore("history").delete(gameRange(gameId));
+    transaction.objectStore("caches").delete(gameRange(gameId));
+    return transactionDone(transaction);
+  }
+
+  appendJournal(gameId: string, entries: JournalEntry[]): Promise<void> {
+    const transaction = this.database.transaction("journal", "readwrite");
+    const journal = transaction.objectStore("journal");
+    entries.forEach((entry) =>
+      journal.put(entry, [gameId, entry.timestamp, entry.id])
+    );
+    return transactionDone(transaction);
+  }
+
+  readJournal(gameId: string): Promise<JournalEntry[]> {
+    return requestResult(
+      this.database.transaction("journal").objectStore("journal").getAll(
+        gameRange(gameId),
+      ),
+    );
+  }
+
+  deleteJournal(gameId: string): Promise<void> {
+    const transaction = this.database.transaction("journal", "readwrite");
+    transaction.objectStore("journal").delete(gameRange(gameId));
+    return transactionDone(transaction);
+  }
+}
+
+// IndexedDB where the browser has it, then local storage; only without
+// either do saves last just as long as the page does
+export async function openStorageBackend(): Promise<StorageBackend> {
+  if (globalThis.indexedDB) {
+    try {
+      return await IndexedDBBackend.open(globalThis.indexedDB);
+    } catch (error) {
+      console.error(`IndexedDB could not be opened: ${error}`);
+    }
+  }
+  try {
+    if (globalThis.localStorage) {
+      return new LocalStorageBackend(globalThis.localStorage);
+    }
+  } catch (error) {
+    console.error(`Local storage could not be used: ${error}`);
+  }
+  console.warn("Saves will not outlast this page.");
+  return new MemoryBackend();
+}
@@ -0,0 +1,261 @@
+// Client side of the multiplayer server. Every collect and deposit goes
+// into an outbox that is kept in storage until the server has answered
+// it, so play carries on offline and catches up once reconnected. Caches
+// from the server are shown with the outbox still to come applied on top.
+import type {
+  ActionSource,
+  Cache,
+  Coin,
+  GameWorld,
+  Location,
+} from "./gameWorld.ts";
+import type { GameAction } from "./commandHistory.ts";
+import {
+  applyOp,
+  CacheOp,
+  cleanPlayerName,
+  ClientMessage,
+  copyCache,
+  parseServerMessage,
+  RemotePlayer,
+  revertOp,
+  ServerMessage,
+  UNKNOWN_CACHE,
+} from "./syncProtocol.ts";
+
+export type SyncStatus = "connecting" | "online" | "offline";
+
+export interface SyncClientOptions {
+  url: string;
+  playerId: string; // Who this browser is to the server
+  profileId: string; // Keeps each profile's outbox apart
+  name: string;
+  world: string; // Players only share caches within the same world
+  storage: Storage; // Keeps the outbox across reloads
+  reconnectDelay: number; // Milliseconds to wait before trying again
+  getCaches: () => readonly Cache[]; // The caches the player can see
+  getPosition: () => Location;
+  onStatus: (status: SyncStatus, pending: number) => void;
+  onCaches: (caches: Cache[]) => void;
+  onPlayers: (players: RemotePlayer[]) => void; // Everyone else
+  onRejected: (op: CacheOp, reason: string) => void;
+}
+
+interface PendingOp {
+  id: string;
+  op: CacheOp;
+}
+
+function outboxKey(profileId: string): string {
+  return `syncOutbox:${profileId}`;
+}
+
+// What an action did to a cache, for the server to do the same. Moves and
+// bonus coins only concern the player, so they have none.
+export function cacheOpForAction(
+  world: GameWorld,
+  action: GameAction,
+  source: ActionSource,
+): CacheOp | undefined {
+  if (action.type === "move") {
+    return undefined;
+  }
+
+  // Collecting and undoing a deposit take a coin; the others put one back
+  const taken = (action.type === "collect") !== (source === "undo");
+  const held = world.getPlayerCoins().find((coin) => coin.id === action.coinId);
+  const cached = world.findCache(action.cacheId)?.coins.find((coin) =>
+    coin.id === action.coinId
+  );
+  if (taken && held) {
+    // The coin as it lay in the cache, before this stop was added to it
+    const coin: Coin = JSON.parse(JSON.stringify(held));
+    if (action.type === "collect") {
+      coin.trail.pop();
+    } else {
+      coin.trail.push({ ...action.stop });
+    }
+    return { type: "take", cacheId: action.cacheId, coin };
+  }
+  if (!taken && cached) {
+    return {
+      type: "put",
+      cacheId: action.cacheId,
+      coin: JSON.parse(JSON.stringify(cached)),
+    };
+  }
+  return undefined;
+}
+
+export class SyncClient {
+  private readonly options: SyncClientOptions;
+  private readonly outbox: PendingOp[];
+  private socket?: WebSocket;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private status: SyncStatus = "offline";
+  private stopped = true;
+  private nextOpId = 0;
+
+  constructor(options: SyncClientOptions) {
+    this.options = options;
+    this.outbox = this.readOutbox();
+  }
+
+  start() {
+    this.stopped = false;
+    this.connect();
+  }
+
+  stop() {
+    this.stopped = true;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  // Send an operation now, or as soon as the server can be reached
+  send(op: CacheOp) {
+    const pending = {
+      id: `${Date.now().toString(36)}-${(this.nextOpId++).toString(36)}`,
+      op,
+    };
+    this.outbox.push(pending);
+    this.writeOutbox();
+    this.post({ type: "op", id: pending.id, op });
+    this.reportStatus();
+  }
+
+  // Watch the caches now in view, seeding the server with any it lacks
+  subscribe() {
+    this.post({
+      type: "subscribe",
+      caches: this.options.getCaches().map((cache) =>
+        this.withoutOutbox(cache)
+      ),
+    });
+  }
+
+  sendPosition() {
+    this.post({ type: "position", position: this.options.getPosition() });
+  }
+
+  private connect() {
+    this.setStatus("connecting");
+    const socket = new WebSocket(this.options.url);
+    this.socket = socket;
+
+    socket.addEventListener("open", () => {
+      this.post({
+        type: "hello",
+        playerId: this.options.playerId,
+        name: cleanPlayerName(this.options.name),
+        world: this.options.world,
+      });
+      this.subscribe();
+      this.outbox.forEach(({ id, op }) => this.post({ type: "op", id, op }));
+      this.sendPosition();
+      this.setStatus("online");
+    });
+    socket.addEventListener("message", (event) => {
+      const message = parseServerMessage(String(event.data));
+      if (message) {
+        this.receive(message);
+      }
+    });
+    socket.addEventListener("close", () => {
+      if (this.socket !== socket) {
+        return; // Replaced or stopped
+      }
+      this.socket = undefined;
+      this.setStatus("offline");
+      this.reconnectTimer = setTimeout(
+        () => this.connect(),
+        this.options.reconnectDelay,
+      );
+    });
+  }
+
+  private receive(message: ServerMessage) {
+    if (message.type === "caches") {
+      this.options.onCaches(
+        message.caches.map((cache) => this.withOutbox(cache)),
+      );
+    } else if (message.type === "result") {
+      const index = this.outbox.findIndex(({ id }) => id === message.id);
+      if (index < 0) {
+        return;
+      }
+      const [{ op }] = this.outbox.splice(index, 1);
+      this.writeOutbox();
+      // Caches the server had never been shown keep what was done offline
+      if (!message.ok && message.reason !== UNKNOWN_CACHE) {
+        this.options.onRejected(op, message.reason ?? "refused");
+      }
+      this.reportStatus();
+    } else if (message.type === "players") {
+      this.options.onPlayers(
+        message.players.filter((player) => player.id !== this.options.playerId),
+      );
+    }
+  }
+
+  private post(message: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  // A cache as the server will have it once the outbox has been through
+  private withOutbox(cache: Cache): Cache {
+    const result = copyCache(cache);
+    this.outbox.forEach(({ op }) => {
+      if (op.cacheId === cache.id) {
+        applyOp(result, op); // Anything refused is about to be reported
+      }
+    });
+    return result;
+  }
+
+  // A cache as it was before the outbox, for seeding the server
+  private withoutOutbox(cache: Cache): Cache {
+    const result = copyCache(cache);
+    this.outbox.slice().reverse().forEach(({ op }) => {
+      if (op.cacheId === cache.id) {
+        revertOp(result, op);
+      }
+    });
+    return result;
+  }
+
+  private setStatus(status: SyncStatus) {
+    this.status = status;
+    this.reportStatus();
+  }
+
+  private reportStatus() {
+    if (!this.stopped) {
+      this.options.onStatus(this.status, this.outbox.length);
+    }
+  }
+
+  private readOutbox(): PendingOp[] {
+    try {
+      const stored = JSON.parse(
+        this.options.storage.getItem(outboxKey(this.options.profileId)) ??
+          "[]",
+      );
+      return Array.isArray(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private writeOutbox() {
+    const key = outboxKey(this.options.profileId);
+    if (this.outbox.length > 0) {
+      this.options.storage.setItem(key, JSON.stringify(this.outbox));
+    } else {
+      this.options.storage.removeItem(key);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/// <reference lib="deno.ns" />
+import assert from "node:assert/strict";
+import {
+  cleanPlayerName,
+  MAX_NAME_LENGTH,
+  parseClientMessage,
+  parseServerMessage,
+} from "./syncProtocol.ts";
+
+function hello(name: string): string {
+  return JSON.stringify({ type: "hello", playerId: "p1", name, world: "" });
+}
+
+Deno.test("players must say hello with a plain, short name", () => {
+  assert.ok(parseClientMessage(hello("Ada")));
+  assert.equal(
+    parseClientMessage(hello("<img src=x onerror=alert(1)>")),
+    undefined,
+  );
+  assert.equal(
+    parseClientMessage(hello("x".repeat(MAX_NAME_LENGTH + 1))),
+    undefined,
+  );
+  assert.equal(parseClientMessage(hello("")), undefined);
+});
+
+Deno.test("profile names are cleaned before they are shared", () => {
+  assert.equal(cleanPlayerName(" <b>Ada</b> "), "bAda/b");
+  assert.equal(cleanPlayerName("<>"), "Player");
+  assert.equal(cleanPlayerName("y".repeat(100)).length, MAX_NAME_LENGTH);
+});
+
+Deno.test("server messages out of shape are dropped", () => {
+  const players = (name: string) =>
+    JSON.stringify({
+      type: "players",
+      players: [{ id: "p2", name, position: { lat: 0, lng: 0 } }],
+    });
+  const cache = (coinId: string) =>
+    JSON.stringify({
+      type: "caches",
+      caches: [{
+        id: "0,0",
+        cell: { i: 0, j: 0 },
+        coins: [{
+          id: coinId,
+          originatingCacheId: "0,0",
+          trail: [],
+          rarity: "common",
+          denomination: 1,
+        }],
+        refilledAt: 0,
+      }],
+    });
+
+  assert.ok(parseServerMessage(players("Ada")));
+  assert.equal(parseServerMessage(players("<script>")), undefined);
+  assert.ok(parseServerMessage(cache("0:0#1")));
+  assert.equal(parseServerMessage(cache("<img src=x>")), undefined);
+  assert.equal(parseServerMessage('{"type":"result","id":"1"}'), undefined);
+  assert.equal(parseServerMessage("not json"), undefined);
+});
@@ -0,0 +1,251 @@
+// Messages between the game and the optional multiplayer server, and the
+// cache operations both sides apply. The server holds the one true copy of
+// every cache it has seen; players send it operations, which it checks
+// against that copy before applying and passing on to everyone watching.
+import type { Cache, Coin, CoinStop, Location } from "./gameWorld.ts";
+
+// Drained caches refill a little every day. The server mints refills
+// itself, so the game and the server must agree on these.
+export const REGENERATION_PERIOD = 24 * 60 * 60 * 1000;
+export const REGENERATION_RATE = 3; // Most coins a cache regains in one period
+
+// Some hours are bonus hours, when a share of cells pay two coins per
+// collect. The server hands out bonus coins itself, so these are shared too.
+export const EVENT_SLOT_LENGTH = 60 * 60 * 1000;
+export const EVENT_CHANCE = 0.15; // Share of hours with an event
+export const BONUS_CELL_CHANCE = 0.25; // Share of cells that pay double during one
+
+// A coin taken from or put into a cache, or a cache refilled for the
+// periods after `from` up to `to`
+export type CacheOp =
+  | { type: "take"; cacheId: string; coin: Coin } // The coin as it lay there
+  | { type: "put"; cacheId: string; coin: Coin }
+  | {
+    type: "refill";
+    cacheId: string;
+    coins: Coin[];
+    from: number;
+    to: number;
+  };
+
+export interface RemotePlayer {
+  id: string;
+  name: string;
+  position: Location;
+}
+
+export type ClientMessage =
+  | { type: "hello"; playerId: string; name: string; world: string }
+  // Every cache the player can see, as they would be without the
+  // player's pending operations; the server keeps any it has not seen
+  | { type: "subscribe"; caches: Cache[] }
+  | { type: "op"; id: string; op: CacheOp }
+  | { type: "position"; position: Location };
+
+export type ServerMessage =
+  | { type: "caches"; caches: Cache[] } // The server's copy of each
+  | { type: "result"; id: string; ok: boolean; reason?: string }
+  | { type: "players"; players: RemotePlayer[] };
+
+// Names are shown on other players' maps, so they are kept short and plain
+export const MAX_NAME_LENGTH = 32;
+const NAME_PATTERN = /^[^<>&"'\p{Cc}]+$/u;
+const PLAYER_ID_PATTERN = /^[\w-]{1,64}$/;
+const ID_PATTERN = /^[\w.,:#+-]{1,64}$/; // Cache and coin ids
+
+export function isPlayerName(value: unknown): value is string {
+  return typeof value === "string" && value.length <= MAX_NAME_LENGTH &&
+    NAME_PATTERN.test(value);
+}
+
+// A profile name as other players may be shown it
+export function cleanPlayerName(name: string): string {
+  const cleaned = name.replace(/[<>&"'\p{Cc}]/gu, "").trim()
+    .slice(0, MAX_NAME_LENGTH).trim();
+  return cleaned || "Player";
+}
+
+// Why an operation on a cache the server has never been shown is refused
+export const UNKNOWN_CACHE = "unknown cache";
+
+// Carry out an operation on a cache, returning why it cannot be done
+// instead if it cannot; the cache is only changed when it can
+export function applyOp(cache: Cache, op: CacheOp): string | undefined {
+  const index = op.type === "refill"
+    ? -1
+    : cache.coins.findIndex((coin) => coin.id === op.coin.id);
+
+  if (op.type === "take") {
+    if (index < 0) {
+      return `coin ${op.coin.id} is no longer in cache ${cache.id}`;
+    }
+    cache.coins.splice(index, 1);
+  } else if (op.type === "put") {
+    if (index >= 0) {
+      return `coin ${op.coin.id} is already in cache ${cache.id}`;
+    }
+    cache.coins.push(op.coin);
+  } else {
+    if (op.to <= cache.refilledAt) {
+      return `cache ${cache.id} was already refilled for period ${op.to}`;
+    }
+    // Only coins minted for the periods being refilled, never seen before
+    const held = new Set(cache.coins.map((coin) => coin.id));
+    const minted = op.coins.filter((coin) => {
+      const period = refillPeriod(cache, coin.id);
+      return period !== undefined && period > cache.refilledAt &&
+        period <= op.to && !held.has(coin.id);
+    });
+    cache.coins.push(...minted);
+    cache.refilledAt = op.to;
+  }
+  return undefined;
+}
+
+// Take back an operation known to have been applied to a cache
+export function revertOp(cache: Cache, op: CacheOp) {
+  if (op.type === "take") {
+    cache.coins.push(op.coin);
+  } else if (op.type === "put") {
+    cache.coins = cache.coins.filter((coin) => coin.id !== op.coin.id);
+  } else {
+    const minted = new Set(op.coins.map((coin) => coin.id));
+    cache.coins = cache.coins.filter((coin) => !minted.has(coin.id));
+    cache.refilledAt = op.from;
+  }
+}
+
+// Refilled coins are numbered "i:j#period.serial"
+function refillPeriod(cache: Cache, coinId: string): number | undefined {
+  const match = /^(-?\d+):(-?\d+)#(\d+)\.\d+$/.exec(coinId);
+  return match && Number(match[1]) === cache.cell.i &&
+      Number(match[2]) === cache.cell.j
+    ? Number(match[3])
+    : undefined;
+}
+
+export function copyCache(cache: Cache): Cache {
+  return JSON.parse(JSON.stringify(cache));
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isLocation(value: unknown): value is Location {
+  return isObject(value) && typeof value.lat === "number" &&
+    typeof value.lng === "number";
+}
+
+function isId(value: unknown): value is string {
+  return typeof value === "string" && ID_PATTERN.test(value);
+}
+
+function isCell(value: unknown): value is Cache["cell"] {
+  return isObject(value) && Number.isInteger(value.i) &&
+    Number.isInteger(value.j);
+}
+
+function isCoinStop(value: unknown): value is CoinStop {
+  return isObject(value) &&
+    (value.action === "collected" || value.action === "deposited") &&
+    isId(value.cacheId) && isCell(value.cell) &&
+    typeof value.timestamp === "number";
+}
+
+function isCoin(value: unknown): value is Coin {
+  return isObject(value) && isId(value.id) &&
+    isId(value.originatingCacheId) && Array.isArray(value.trail) &&
+    value.trail.every(isCoinStop) && typeof value.rarity === "string" &&
+    typeof value.denomination === "number";
+}
+
+function isCache(value: unknown): value is Cache {
+  return isObject(value) && isId(value.id) && isCell(value.cell) &&
+    Array.isArray(value.coins) && value.coins.every(isCoin) &&
+    typeof value.refilledAt === "number";
+}
+
+function isRemotePlayer(value: unknown): value is RemotePlayer {
+  return isObject(value) && typeof value.id === "string" &&
+    PLAYER_ID_PATTERN.test(value.id) && isPlayerName(value.name) &&
+    isLocation(value.position);
+}
+
+function isCacheOp(value: unknown): value is CacheOp {
+  if (!isObject(value) || !isId(value.cacheId)) {
+    return false;
+  }
+  return value.type === "refill"
+    ? Array.isArray(value.coins) && value.coins.every(isCoin) &&
+      typeof value.from === "number" && typeof value.to === "number"
+    : (value.type === "take" || value.type === "put") && isCoin(value.coin);
+}
+
+function parseObject(text: string): { [key: string]: unknown } | undefined {
+  try {
+    const message: unknown = JSON.parse(text);
+    return isObject(message) ? message : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// A message from a player, or undefined for anything out of shape
+export function parseClientMessage(text: string): ClientMessage | undefined {
+  const message = parseObject(text);
+  if (!message) {
+    return undefined;
+  }
+
+  switch (message.type) {
+    case "hello":
+      return typeof message.playerId === "string" &&
+          PLAYER_ID_PATTERN.test(message.playerId) &&
+          isPlayerName(message.name) && typeof message.world === "string"
+        ? message as ClientMessage
+        : undefined;
+    case "subscribe":
+      return Array.isArray(message.caches) && message.caches.every(isCache)
+        ? message as ClientMessage
+        : undefined;
+    case "op":
+      return typeof message.id === "string" && isCacheOp(message.op)
+        ? message as ClientMessage
+        : undefined;
+    case "position":
+      return isLocation(message.position)
+        ? message as ClientMessage
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+// A message from the server, or undefined for anything out of shape
+export function parseServerMessage(text: string): ServerMessage | undefined {
+  const message = parseObject(text);
+  if (!message) {
+    return undefined;
+  }
+
+  switch (message.type) {
+    case "caches":
+      return Array.isArray(message.caches) && message.caches.every(isCache)
+        ? message as ServerMessage
+        : undefined;
+    case "result":
+      return typeof message.id === "string" &&
+          typeof message.ok === "boolean" &&
+          (message.reason === undefined || typeof message.reason === "string")
+        ? message as ServerMessage
+        : undefined;
+    case "players":
+      return Array.isArray(message.players) &&
+          message.players.every(isRemotePlayer)
+        ? message as ServerMessage
+        : undefined;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,150 @@
+// Export a play session for GIS tools: the player's route, every known
+// cache and every collect/deposit as points, in GeoJSON or GPX.
+import type {
+  Feature,
+  FeatureCollection,
+  GeoJsonProperties,
+  LineString,
+  Point,
+} from "geojson";
+import type { Board } from "./board.ts";
+import {
+  CoinStop,
+  GameState,
+  listCaches,
+  listCoins,
+  Location,
+} from "./gameWorld.ts";
+
+interface CoinEvent extends CoinStop {
+  coinId: string;
+}
+
+// Collects and deposits across all coins, oldest first
+function listCoinEvents(gameState: GameState): CoinEvent[] {
+  const events: CoinEvent[] = [];
+  listCoins(gameState).forEach((coin) => {
+    coin.trail.forEach((stop) => events.push({ ...stop, coinId: coin.id }));
+  });
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+function pointFeature(
+  location: Location,
+  properties: GeoJsonProperties,
+): Feature<Point> {
+  return {
+    type: "Feature",
+    geometry: { type: "Point", coordinates: [location.lng, location.lat] },
+    properties,
+  };
+}
+
+export function exportTrackGeoJSON(
+  gameState: GameState,
+  board: Board,
+): FeatureCollection {
+  const features: Feature[] = [];
+
+  // A LineString needs at least two positions to be valid GeoJSON
+  if (gameState.movementHistory.length >= 2) {
+    const route: Feature<LineString> = {
+      type: "Feature",
+      geometry: {
+        type: "LineString",
+        coordinates: gameState.movementHistory.map((location) => [
+          location.lng,
+          location.lat,
+        ]),
+      },
+      properties: { kind: "route" },
+    };
+    features.push(route);
+  }
+
+  listCaches(gameState).forEach((cache) => {
+    features.push(pointFeature(board.getCellCenter(cache.cell), {
+      kind: "cache",
+      cacheId: cache.id,
+      i: cache.cell.i,
+      j: cache.cell.j,
+      coins: cache.coins.length,
+    }));
+  });
+
+  listCoinEvents(gameState).forEach((event) => {
+    features.push(pointFeature(board.getCellCenter(event.cell), {
+      kind: event.action,
+      coinId: event.coinId,
+      cacheId: event.cacheId,
+      time: new Date(event.timestamp).toISOString(),
+    }));
+  });
+
+  return { type: "FeatureCollection", features };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function gpxWaypoint(
+  location: Location,
+  name: string,
+  type: string,
+  extra = "",
+): string {
+  return `  <wpt lat="${location.lat}" lon="${location.lng}">
+${extra}    <name>${escapeXml(name)}</name>
+    <type>${escapeXml(type)}</type>
+  </wpt>`;
+}
+
+export function exportTrackGPX(
+  gameState: GameState,
+  board: Board,
+  exportedAt = Date.now(),
+): string {
+  const caches = listCaches(gameState).map((cache) =>
+    gpxWaypoint(
+      board.getCellCenter(cache.cell),
+      `Cache ${cache.id} (${cache.coins.length} coins)`,
+      "cache",
+    )
+  );
+
+  const events = listCoinEvents(gameState).map((event) =>
+    gpxWaypoint(
+      board.getCellCenter(event.cell),
+      `${event.action} ${event.coinId} at cache ${event.cacheId}`,
+      event.action,
+      `    <time>${new Date(event.timestamp).toISOString()}</time>\n`,
+    )
+  );
+
+  const trackPoints = gameState.movementHistory.map((location) =>
+    `      <trkpt lat="${location.lat}" lon="${location.lng}"/>`
+  );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="cmpm-121-demo-3" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata>`,
+    `    <time>${new Date(exportedAt).toISOString()}</time>`,
+    `  </metadata>`,
+    ...caches,
+    ...events,
+    `  <trk>`,
+    `    <name>Player route</name>`,
+    `    <trkseg>`,
+    ...trackPoints,
+    `    </trkseg>`,
+    `  </trk>`,
+    `</gpx>`,
+    ``,
+  ].join("\n");
+}
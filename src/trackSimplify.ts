@@ -0,0 +1,64 @@
+// Douglas–Peucker simplification for the player's recorded route.
+// Points that lie within a tolerance of the line between their neighbours
+// are dropped, so straight stretches shrink to their two ends while turns
+// are kept exactly where they happened.
+import { Location, METERS_PER_DEGREE } from "./gameWorld.ts";
+
+// How far a point lies from the segment between two others, in metres.
+// A flat projection around the segment is plenty at street scale.
+function distanceToSegment(
+  point: Location,
+  start: Location,
+  end: Location,
+): number {
+  const lngScale = Math.cos(start.lat * Math.PI / 180);
+  const x = (point.lng - start.lng) * lngScale * METERS_PER_DEGREE;
+  const y = (point.lat - start.lat) * METERS_PER_DEGREE;
+  const dx = (end.lng - start.lng) * lngScale * METERS_PER_DEGREE;
+  const dy = (end.lat - start.lat) * METERS_PER_DEGREE;
+
+  const lengthSquared = dx * dx + dy * dy;
+  const along = lengthSquared > 0
+    ? Math.max(0, Math.min(1, (x * dx + y * dy) / lengthSquared))
+    : 0;
+  return Math.sqrt((x - along * dx) ** 2 + (y - along * dy) ** 2);
+}
+
+export function simplifyTrack(
+  points: readonly Location[],
+  toleranceMeters: number,
+): Location[] {
+  if (points.length <= 2) {
+    return [...points];
+  }
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Walk the segments with a stack; long routes would overflow recursion
+  const segments: [number, number][] = [[0, points.length - 1]];
+  while (segments.length > 0) {
+    const [first, last] = segments.pop()!;
+    let farthest = -1;
+    let farthestDistance = toleranceMeters;
+    for (let index = first + 1; index < last; index++) {
+      const distance = distanceToSegment(
+        points[index],
+        points[first],
+        points[last],
+      );
+      if (distance > farthestDistance) {
+        farthest = index;
+        farthestDistance = distance;
+      }
+    }
+
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      segments.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index]);
+}
@@ -0,0 +1,72 @@
+// Timed world events, worked out from luck and the clock alone so every
+// player sees the same schedule. Time is cut into fixed slots and luck
+// decides which slots hold an event. The only kind so far is bonus cells:
+// while one runs, some cells hand out a second coin with every collect.
+import luck from "./luck.ts";
+import type { Cell } from "./board.ts";
+
+export type WorldEventKind = "bonus-cells";
+
+export interface WorldEvent {
+  kind: WorldEventKind;
+  slot: number; // Which slot since the epoch; also seeds the event's luck
+  start: number;
+  end: number;
+}
+
+export interface WorldEventOptions {
+  slotLength: number; // Milliseconds; every event lasts exactly one slot
+  eventChance: number; // Chance that any given slot holds an event
+  bonusCellChance: number; // Share of cells that pay double during one
+  seed?: string; // The world whose luck decides; the current one if left out
+}
+
+export class WorldEventSchedule {
+  readonly slotLength: number;
+  readonly eventChance: number;
+  readonly bonusCellChance: number;
+  readonly seed?: string;
+
+  constructor(options: WorldEventOptions) {
+    this.slotLength = options.slotLength;
+    this.eventChance = options.eventChance;
+    this.bonusCellChance = options.bonusCellChance;
+    this.seed = options.seed;
+  }
+
+  // The event running at a moment, if any
+  eventAt(time: number): WorldEvent | undefined {
+    return this.eventInSlot(Math.floor(time / this.slotLength));
+  }
+
+  // Every event still running or starting before `until`, soonest first
+  between(from: number, until: number): WorldEvent[] {
+    const events: WorldEvent[] = [];
+    const last = Math.floor(until / this.slotLength);
+    for (let slot = Math.floor(from / this.slotLength); slot <= last; slot++) {
+      const event = this.eventInSlot(slot);
+      if (event && event.start < until) {
+        events.push(event);
+      }
+    }
+    return events;
+  }
+
+  isBonusCell(cell: Cell, event: WorldEvent): boolean {
+    return event.kind === "bonus-cells" &&
+      luck(`${cell.i},${cell.j},bonus,${event.slot}`, this.seed) <
+        this.bonusCellChance;
+  }
+
+  private eventInSlot(slot: number): WorldEvent | undefined {
+    if (luck(`event,${slot}`, this.seed) >= this.eventChance) {
+      return undefined;
+    }
+    return {
+      kind: "bonus-cells",
+      slot,
+      start: slot * this.slotLength,
+      end: (slot + 1) * this.slotLength,
+    };
+  }
+}
@@ -0,0 +1,42 @@
+/// <reference lib="deno.ns" />
+import assert from "node:assert/strict";
+import {
+  DEFAULT_WORLD_SETTINGS,
+  validateWorldSettings,
+  WorldSettingsError,
+} from "./worldSettings.ts";
+
+Deno.test("the default world is valid", () => {
+  assert.deepEqual(
+    validateWorldSettings(DEFAULT_WORLD_SETTINGS),
+    DEFAULT_WORLD_SETTINGS,
+  );
+});
+
+Deno.test("zooming out is limited by how small the cells are", () => {
+  assert.throws(
+    () => validateWorldSettings({ ...DEFAULT_WORLD_SETTINGS, zoom: 10 }),
+    {
+      name: "WorldSettingsError",
+      message: "Zoom should be a whole number from 14 to 19",
+    },
+  );
+  assert.equal(
+    validateWorldSettings({
+      ...DEFAULT_WORLD_SETTINGS,
+      tileWidth: 0.01,
+      moveDistance: 0.001,
+      zoom: 11,
+    }).zoom,
+    11,
+  );
+  assert.throws(
+    () =>
+      validateWorldSettings({
+        ...DEFAULT_WORLD_SETTINGS,
+        tileWidth: 0.0001,
+        zoom: 16,
+      }),
+    WorldSettingsError,
+  );
+});
@@ -0,0 +1,218 @@
+// The parameters that make one world differ from another: the luck seed,
+// the grid, how far a step goes and where play starts. They travel with
+// each save and in share links, so two people can play the same world.
+// The defaults are the world the game always had.
+import type { Location } from "./gameWorld.ts";
+
+export interface WorldSettings {
+  seed: string; // Namespaces every luck() call; "" is the original world
+  tileWidth: number; // Degrees per cell
+  visibilityRadius: number; // Cells around the player with caches loaded
+  zoom: number; // Map zoom level during play
+  moveDistance: number; // Degrees per button or key step
+  start: Location;
+  cacheSpawnProbability: number; // Chance that any given cell holds a cache
+}
+
+export const DEFAULT_WORLD_SETTINGS: WorldSettings = {
+  seed: "",
+  tileWidth: 0.001,
+  visibilityRadius: 3,
+  zoom: 19,
+  moveDistance: 0.0001,
+  start: { lat: 36.98949379578401, lng: -122.06277128548504 }, // Our classroom
+  cacheSpawnProbability: 0.1,
+};
+
+// Thrown for settings out of range, naming the first bad one
+export class WorldSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorldSettingsError";
+  }
+}
+
+const MAX_SEED_LENGTH = 64;
+const MAX_ZOOM = 19; // The most the map tiles go to
+const TILE_PIXELS = 256; // Across one map tile, which spans the globe at zoom 0
+const MIN_CELL_PIXELS = 8; // Smaller cells would fill the view by the million
+
+// The least zoom at which a cell is still MIN_CELL_PIXELS across. Cells are
+// narrowest east to west, since Mercator stretches them north to south.
+function minimumZoom(tileWidth: number): number {
+  const zoom = Math.ceil(
+    Math.log2(MIN_CELL_PIXELS * 360 / (TILE_PIXELS * tileWidth)),
+  );
+  return Math.min(Math.max(zoom, 1), MAX_ZOOM);
+}
+
+function checkRange(
+  value: unknown,
+  name: string,
+  min: number,
+  max: number,
+  integer = false,
+): number {
+  if (
+    typeof value !== "number" || !isFinite(value) || value < min ||
+    value > max || (integer && !Number.isInteger(value))
+  ) {
+    throw new WorldSettingsError(
+      `${name} should be ${
+        integer ? "a whole number" : "a number"
+      } from ${min} to ${max}`,
+    );
+  }
+  return value;
+}
+
+// Check every field, returning a clean copy
+export function validateWorldSettings(value: unknown): WorldSettings {
+  if (typeof value !== "object" || value === null) {
+    throw new WorldSettingsError("World settings should be an object");
+  }
+  const settings = value as { [key: string]: unknown };
+  if (
+    typeof settings.seed !== "string" ||
+    settings.seed.length > MAX_SEED_LENGTH
+  ) {
+    throw new WorldSettingsError(
+      `Seed should be text of at most ${MAX_SEED_LENGTH} characters`,
+    );
+  }
+  const start = (settings.start ?? {}) as { [key: string]: unknown };
+  const tileWidth = checkRange(settings.tileWidth, "Tile width", 0.0001, 0.01);
+
+  return {
+    seed: settings.seed,
+    tileWidth,
+    visibilityRadius: checkRange(
+      settings.visibilityRadius,
+      "Visibility radius",
+      1,
+      10,
+      true,
+    ),
+    zoom: checkRange(
+      settings.zoom,
+      "Zoom",
+      minimumZoom(tileWidth),
+      MAX_ZOOM,
+      true,
+    ),
+    // A step longer than a cell would skip cells entirely
+    moveDistance: checkRange(
+      settings.moveDistance,
+      "Move distance",
+      0.00001,
+      tileWidth,
+    ),
+    start: {
+      lat: checkRange(start.lat, "Start latitude", -85, 85),
+      lng: checkRange(start.lng, "Start longitude", -180, 180),
+    },
+    cacheSpawnProbability: checkRange(
+      settings.cacheSpawnProbability,
+      "Cache probability",
+      0,
+      1,
+    ),
+  };
+}
+
+export function sameWorld(a: WorldSettings, b: WorldSettings): boolean {
+  return JSON.stringify(validateWorldSettings(a)) ===
+    JSON.stringify(validateWorldSettings(b));
+}
+
+// Query parameter for each numeric setting
+const NUMBER_PARAMS: {
+  param: string;
+  get: (settings: WorldSettings) => number;
+  set: (settings: WorldSettings, value: number) => void;
+}[] = [
+  {
+    param: "tile",
+    get: (settings) => settings.tileWidth,
+    set: (settings, value) => settings.tileWidth = value,
+  },
+  {
+    param: "radius",
+    get: (settings) => settings.visibilityRadius,
+    set: (settings, value) => settings.visibilityRadius = value,
+  },
+  {
+    param: "zoom",
+    get: (settings) => settings.zoom,
+    set: (settings, value) => settings.zoom = value,
+  },
+  {
+    param: "step",
+    get: (settings) => settings.moveDistance,
+    set: (settings, value) => settings.moveDistance = value,
+  },
+  {
+    param: "lat",
+    get: (settings) => settings.start.lat,
+    set: (settings, value) => settings.start.lat = value,
+  },
+  {
+    param: "lng",
+    get: (settings) => settings.start.lng,
+    set: (settings, value) => settings.start.lng = value,
+  },
+  {
+    param: "caches",
+    get: (settings) => settings.cacheSpawnProbability,
+    set: (settings, value) => settings.cacheSpawnProbability = value,
+  },
+];
+
+export function hasWorldParams(params: URLSearchParams): boolean {
+  return params.has("seed") ||
+    NUMBER_PARAMS.some(({ param }) => params.has(param));
+}
+
+// Settings named in a link, with anything it leaves out taken from the
+// defaults. Throws WorldSettingsError if the result is out of range.
+export function worldSettingsFromParams(
+  params: URLSearchParams,
+): WorldSettings {
+  const settings: WorldSettings = {
+    ...DEFAULT_WORLD_SETTINGS,
+    start: { ...DEFAULT_WORLD_SETTINGS.start },
+    seed: params.get("seed") ?? DEFAULT_WORLD_SETTINGS.seed,
+  };
+  NUMBER_PARAMS.forEach(({ param, set }) => {
+    const text = params.get(param);
+    if (text !== null) {
+      set(settings, text.trim() === "" ? NaN : Number(text));
+    }
+  });
+  return validateWorldSettings(settings);
+}
+
+// Only what differs from the defaults, so the original world has no params
+export function worldSettingsToParams(
+  settings: WorldSettings,
+): URLSearchParams {
+  const params = new URLSearchParams();
+  if (settings.seed !== DEFAULT_WORLD_SETTINGS.seed) {
+    params.set("seed", settings.seed);
+  }
+  NUMBER_PARAMS.forEach(({ param, get }) => {
+    if (get(settings) !== get(DEFAULT_WORLD_SETTINGS)) {
+      params.set(param, String(get(settings)));
+    }
+  });
+  return params;
+}
+
+// e.g. "seed=abc, tile=0.002", or "the original world"
+export function describeWorld(settings: WorldSettings): string {
+  const params: string[] = [];
+  worldSettingsToParams(settings).forEach((value, param) =>
+    params.push(`${param}=${value}`)
+  );
+  return params.length > 0 ? params.join(", ") : "the original world";
+}